@@ -2,6 +2,8 @@ import { performance } from 'perf_hooks'
 import fs from 'node:fs'
 import path from 'node:path'
 import { createStore } from '../dist/index.js'
+import { subscribePath } from '../dist/paths.js'
+import { mutate } from '../dist/draft.js'
 
 function formatNumber(n) {
   return Intl.NumberFormat('en-US').format(n)
@@ -77,6 +79,50 @@ function main() {
   )
   unsub()
 
+  // Table of 2,000 cells, one subscriber per cell — the selector scan runs
+  // every listener per commit, the path index only visits changed branches.
+  const cells = 2000
+  const makeTable = () => ({
+    meta: { tick: 0 },
+    rows: Array.from({ length: cells / 10 }, () => Array.from({ length: 10 }, () => ({ value: 0 }))),
+  })
+
+  const selectorTable = createStore(makeTable())
+  const selectorUnsubs = []
+  for (let c = 0; c < cells; c++) {
+    const r = Math.floor(c / 10)
+    const col = c % 10
+    selectorUnsubs.push(selectorTable.subscribe((s) => s.rows[r][col], () => {}))
+  }
+  results.push(
+    bench(`notify ${formatNumber(cells)} selector subscribers (unrelated key)`, iterations / 10, (i) => {
+      selectorTable.patch({ meta: { tick: i } })
+    })
+  )
+  results.push(
+    bench(`notify ${formatNumber(cells)} selector subscribers (one cell)`, iterations / 10, (i) => {
+      mutate(selectorTable, (d) => { d.rows[i % 200][i % 10].value = i })
+    })
+  )
+  for (const u of selectorUnsubs) u()
+
+  const pathTable = createStore(makeTable())
+  const pathUnsubs = []
+  for (let c = 0; c < cells; c++) {
+    pathUnsubs.push(subscribePath(pathTable, ['rows', Math.floor(c / 10), c % 10], () => {}))
+  }
+  results.push(
+    bench(`notify ${formatNumber(cells)} path subscribers (unrelated key)`, iterations / 10, (i) => {
+      pathTable.patch({ meta: { tick: i } })
+    })
+  )
+  results.push(
+    bench(`notify ${formatNumber(cells)} path subscribers (one cell)`, iterations / 10, (i) => {
+      mutate(pathTable, (d) => { d.rows[i % 200][i % 10].value = i })
+    })
+  )
+  for (const u of pathUnsubs) u()
+
   writeDashboard(results)
   for (const r of results) {
     console.log(
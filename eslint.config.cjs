@@ -85,7 +85,9 @@ module.exports = [
       parser: tsParser,
       globals: {
         console: 'readonly',
-        setTimeout: 'readonly'
+        setTimeout: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly'
       }
     },
     plugins: {
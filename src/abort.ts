@@ -0,0 +1,20 @@
+import { Unsubscribe } from "./types.js"
+
+/**
+ * Calls `unsubscribe` when `signal` aborts. The returned function
+ * unsubscribes too, and stops listening to the signal.
+ */
+export function bindSignal(unsubscribe: Unsubscribe, signal: AbortSignal | undefined): Unsubscribe {
+  if (!signal) return unsubscribe
+  // Aborted while subscribing, e.g. by a `fireImmediately` subscriber.
+  if (signal.aborted) {
+    unsubscribe()
+    return unsubscribe
+  }
+  const onAbort = () => unsubscribe()
+  signal.addEventListener("abort", onAbort, { once: true })
+  return () => {
+    signal.removeEventListener("abort", onAbort)
+    unsubscribe()
+  }
+}
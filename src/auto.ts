@@ -0,0 +1,136 @@
+import { Selector, Subscriber, SubscribeOptions, Unsubscribe, DeepReadonly } from "./types.js"
+import { Store } from "./store.js"
+import { Derived } from "./derived.js"
+import {
+  DepNode,
+  Tracker,
+  createDepNode,
+  depsChanged,
+  runTracked,
+  trackDeps,
+  trackValue,
+  untrackValue,
+} from "./tracking.js"
+
+/**
+ * A selector that records which paths of the state it reads and recomputes
+ * only when one of them changes — no hand-written `eq`, and no work at all
+ * for commits elsewhere in the state.
+ *
+ * Tracking follows plain objects and arrays. Other values (Maps, Dates,
+ * class instances) count as read whole and are compared by reference.
+ * Returning part of the state marks that part as read whole.
+ *
+ * @example
+ * ```ts
+ * const total = autoSelector(store, s => s.cart.items.length + s.fees.shipping)
+ * total.subscribe(render) // silent when s.user or s.cart.note changes
+ * ```
+ */
+export function autoSelector<T, R>(store: Store<T>, selector: Selector<T, R>): Derived<R> {
+  let deps: DepNode | null = null
+  let source: T | undefined
+  let value: R
+
+  const evaluate = (state: T): R => {
+    if (deps === null || depsChanged(deps, source, state)) {
+      const node = createDepNode()
+      value = runTracked(null, () => untrackValue(selector(trackValue(state, node) as DeepReadonly<T>)))
+      deps = node
+    }
+    source = state
+    return value
+  }
+
+  const derived = {
+    read() {
+      const state = runTracked(null, () => store.read())
+      const out = evaluate(state)
+      // Inside an `autorun`, depend on exactly the paths this selector read.
+      trackDeps(store, state, deps!)
+      return out
+    },
+    subscribe(subscriber: Subscriber<R>, options?: SubscribeOptions<R>) {
+      return store.subscribe(state => evaluate(state as T), subscriber, options)
+    },
+    upstream: store,
+  }
+  return derived
+}
+
+// Guards against an effect that keeps invalidating itself with its own writes.
+const MAX_RUNS = 100
+
+/**
+ * Runs `effect` now and again whenever state it read changes. Reads are
+ * tracked per path across every store the effect touches, so a change to an
+ * unrelated key — or an unrelated store — never re-runs it.
+ *
+ * Values read inside the effect are read-only tracking views; writing them
+ * into a store is fine, they are unwrapped on commit. Returns a function that
+ * stops the effect.
+ *
+ * @example
+ * ```ts
+ * const stop = autorun(() => {
+ *   document.title = `${user.read().name} (${inbox.read().unread})`
+ * })
+ * ```
+ */
+export function autorun(effect: () => void): Unsubscribe {
+  let tracker: Tracker | null = null
+  let subscriptions = new Map<Store<unknown>, Unsubscribe>()
+  let running = false
+  let disposed = false
+
+  const resubscribe = (reads: Tracker["reads"]) => {
+    const next = new Map<Store<unknown>, Unsubscribe>()
+    for (const source of reads.keys()) {
+      const store = source as Store<unknown>
+      const existing = subscriptions.get(store)
+      if (existing) {
+        subscriptions.delete(store)
+        next.set(store, existing)
+      } else {
+        next.set(store, store.subscribe(state => state, check))
+      }
+    }
+    for (const unsubscribe of subscriptions.values()) unsubscribe()
+    subscriptions = next
+  }
+
+  const run = () => {
+    running = true
+    try {
+      for (let runs = 1; ; runs++) {
+        if (runs > MAX_RUNS) throw new Error(`autorun() did not settle after ${MAX_RUNS} runs`)
+        const current = new Tracker()
+        tracker = current
+        runTracked(current, effect)
+        if (disposed) return
+        resubscribe(current.reads)
+        // Writes the effect made to state it had already read.
+        if (!current.stale()) return
+      }
+    } finally {
+      running = false
+    }
+  }
+
+  function check() {
+    // Changes made by the effect itself are picked up when its run ends.
+    if (disposed || running) return
+    if (tracker !== null && !tracker.stale()) return
+    run()
+  }
+
+  run()
+
+  return () => {
+    if (disposed) return
+    disposed = true
+    for (const unsubscribe of subscriptions.values()) unsubscribe()
+    subscriptions.clear()
+    tracker = null
+  }
+}
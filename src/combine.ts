@@ -1,11 +1,18 @@
 import { Equality } from "./types.js"
 import { Store } from "./store.js"
+import { ValueSource } from "./interop.js"
+import { bindSignal } from "./abort.js"
 
 export interface Combined<TShape extends Record<string, unknown>> {
   read(): { [K in keyof TShape]: Readonly<TShape[K]> }
   subscribe(
     subscriber: (s: { [K in keyof TShape]: Readonly<TShape[K]> }) => void,
-    options?: { eq?: Equality<{ [K in keyof TShape]: Readonly<TShape[K]> }>, fireImmediately?: boolean }
+    options?: {
+      eq?: Equality<{ [K in keyof TShape]: Readonly<TShape[K]> }>,
+      fireImmediately?: boolean,
+      /** Unsubscribes when the signal aborts. */
+      signal?: AbortSignal,
+    }
   ): () => void
   /** Detaches from all child stores and drops every subscriber. */
   destroy(): void
@@ -22,6 +29,7 @@ export function combineStores<TShape extends Record<string, unknown>>(
 
   let subscribers: Array<() => void> = []
   let childUnsubs: Array<() => void> | null = null
+  let closers = new Set<() => void>()
 
   function notifyAll() {
     // Iterate a snapshot so a subscriber unsubscribing mid-notification
@@ -66,7 +74,7 @@ export function combineStores<TShape extends Record<string, unknown>>(
     childUnsubs = null
   }
 
-  return {
+  const combined: Combined<TShape> & { interopSource(): ValueSource<{ [K in keyof TShape]: Readonly<TShape[K]> }> } = {
     read() {
       // While detached there are no child subscriptions keeping `current`
       // up to date, so pull fresh values on demand.
@@ -74,6 +82,7 @@ export function combineStores<TShape extends Record<string, unknown>>(
       return current
     },
     subscribe(subscriber, options) {
+      if (options?.signal?.aborted) return () => {}
       const eq: Equality<{ [K in keyof TShape]: Readonly<TShape[K]> }> = options?.eq ?? Object.is
       attach()
       let prev = current
@@ -87,17 +96,30 @@ export function combineStores<TShape extends Record<string, unknown>>(
       }
       subscribers.push(notify)
       let active = true
-      return () => {
+      return bindSignal(() => {
         if (!active) return
         active = false
         const idx = subscribers.indexOf(notify)
         if (idx >= 0) subscribers.splice(idx, 1)
         if (subscribers.length === 0) detach()
-      }
+      }, options?.signal)
     },
     destroy() {
       subscribers = []
       detach()
-    }
+      const closing = closers
+      closers = new Set()
+      for (const close of closing) close()
+    },
+    // Streams complete on `destroy()`.
+    interopSource: () => ({
+      read: () => combined.read(),
+      listen: onChange => combined.subscribe(onChange),
+      onClose: close => {
+        closers.add(close)
+        return () => { closers.delete(close) }
+      },
+    }),
   }
+  return combined
 }
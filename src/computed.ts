@@ -6,7 +6,7 @@ export function computed<T, R>(store: Store<T>, selector: Selector<T, R>): Deriv
   let cachedVersion = -1
   let cachedValue: R
 
-  return {
+  const derived = {
     read() {
       if (store.version !== cachedVersion) {
         cachedValue = selector(store.snapshot())
@@ -17,5 +17,7 @@ export function computed<T, R>(store: Store<T>, selector: Selector<T, R>): Deriv
     subscribe(subscriber: Subscriber<R>, options?: SubscribeOptions<R>) {
       return store.subscribe(selector, subscriber, options)
     },
+    upstream: store,
   }
+  return derived
 }
@@ -1,11 +1,160 @@
 import { Store, createStore } from "./store.js"
+import { computed } from "./computed.js"
+import { registerStore } from "./registry.js"
+import { CommitMeta, DeepReadonly, StoreOptions } from "./types.js"
 
 export type StateCreator<T> = (
   set: (partial: Partial<T> | ((prev: T) => T)) => T,
   get: () => T
 ) => T;
 
-export function defineStore<T>(creator: StateCreator<T>): Store<T> {
+/** Getters for the options form of `defineStore`: each derives a value from state. */
+export type StoreGetters<S> = Record<string, (state: DeepReadonly<S>) => unknown>;
+
+/** Actions for the options form of `defineStore`. `this` is the store. */
+export type StoreActions = Record<string, (...args: never[]) => unknown>;
+
+/** A store from the options form: the `Store<S>` API plus getters and actions. */
+export type DefinedStore<S, G extends StoreGetters<S>, A extends StoreActions> = Store<S> &
+  { readonly [K in keyof G]: ReturnType<G[K]> } &
+  A;
+
+export interface DefineStoreOptions<S, G extends StoreGetters<S>, A extends StoreActions> {
+  /** Prefixes action labels: `"cart"` labels `add` as `"cart/add"`. */
+  id?: string;
+  state: () => S;
+  /** Exposed as read-only properties, memoized with `computed`. */
+  getters?: G & StoreGetters<S>;
+  /**
+   * Exposed as methods. Writes made through `this` are labelled with the
+   * action's name, so logger, devtools and history show which action ran.
+   */
+  actions?: A & ThisType<DefinedStore<S, G, A>>;
+  /**
+   * Options for the underlying `createStore` call, plus a `name` that
+   * registers the defined store itself, getters and actions included.
+   */
+  options?: StoreOptions<S> & { name?: string };
+}
+
+export interface DefineStore {
+  <T>(creator: StateCreator<T>, options?: StoreOptions<T>): Store<T>;
+  <S, G extends StoreGetters<S> = Record<never, never>, A extends StoreActions = Record<never, never>>(
+    options: DefineStoreOptions<S, G, A>
+  ): DefinedStore<S, G, A>;
+}
+
+/**
+ * Builds a store either from a `StateCreator` (actions live in state) or, in
+ * the Pinia style, from `{ state, getters, actions }`.
+ *
+ * @example
+ * ```ts
+ * const cart = defineStore({
+ *   id: "cart",
+ *   state: () => ({ items: [] as Item[] }),
+ *   getters: { total: s => s.items.reduce((n, i) => n + i.price, 0) },
+ *   actions: {
+ *     add(item: Item) { this.patch(s => ({ items: [...s.items, item] })) },
+ *   },
+ * })
+ *
+ * cart.add(item) // commits with { action: "cart/add" }
+ * cart.total
+ * ```
+ */
+export const defineStore: DefineStore = (
+  definition: StateCreator<unknown> | DefineStoreOptions<unknown, StoreGetters<unknown>, StoreActions>,
+  options?: StoreOptions<unknown>
+) => {
+  if (typeof definition === "function") return fromCreator(definition, options);
+  return fromOptions(definition);
+};
+
+// Methods that write, and so pick up an action's label when called via
+// `this`, with the position of their `meta` argument.
+const META_INDEX = { set: 1, update: 2, compute: 1, batch: 1, patch: 1, reset: 0 } as const;
+const WRITE_METHODS = Object.keys(META_INDEX) as Array<keyof typeof META_INDEX>;
+
+// The rest of `Store<T>`, bound so a view can never shadow store internals.
+const READ_METHODS = [
+  "read", "snapshot", "getInitialState", "effect", "subscribe",
+  "use", "plugins", "flush", "destroy",
+] as const;
+
+type Method = (...args: unknown[]) => unknown;
+
+/**
+ * The `this` an action runs with: the store, with every write defaulting its
+ * meta to the action's label. Built once per action, so it also labels
+ * writes made after an `await`.
+ */
+function actionView<S>(instance: Store<S>, store: Store<S>, meta: CommitMeta): Store<S> {
+  const view = Object.create(instance) as Record<string, unknown>;
+  const target = store as unknown as Record<string, Method>;
+  for (const name of READ_METHODS) {
+    view[name] = (...args: unknown[]) => target[name]!(...args);
+  }
+  for (const name of WRITE_METHODS) {
+    const index = META_INDEX[name];
+    view[name] = (...args: unknown[]) => {
+      const call = args.slice(0, index + 1);
+      if (call[index] === undefined) call[index] = meta;
+      return target[name]!(...call);
+    };
+  }
+  return view as unknown as Store<S>;
+}
+
+function fromOptions<S>(definition: DefineStoreOptions<S, StoreGetters<S>, StoreActions>) {
+  const { name, ...options } = definition.options ?? {};
+  const store = createStore(definition.state(), options);
+  const instance = Object.create(store) as Record<string, unknown>;
+  const reserved = new Set<string>([...WRITE_METHODS, ...READ_METHODS, "version", "destroyed"]);
+  const target = store as unknown as Record<string, Method>;
+
+  // The instance delegates to the store rather than inheriting its methods,
+  // which would then read and write fields on the instance. Methods are looked
+  // up per call, so a store replaced by `acceptHMR` forwards them too.
+  for (const name of [...WRITE_METHODS, ...READ_METHODS]) {
+    instance[name] = (...args: unknown[]) => target[name]!(...args);
+  }
+  Object.defineProperty(instance, "version", { get: () => store.version });
+  Object.defineProperty(instance, "destroyed", { get: () => store.destroyed });
+
+  if (name !== undefined) {
+    const unregister = registerStore(name, instance as unknown as Store<S>);
+    instance.destroy = () => {
+      store.destroy();
+      unregister();
+    };
+  }
+
+  const claim = (name: string) => {
+    if (reserved.has(name)) {
+      throw new Error(`defineStore: "${name}" is already defined on the store`);
+    }
+    reserved.add(name);
+  };
+
+  for (const [name, getter] of Object.entries(definition.getters ?? {})) {
+    claim(name);
+    const value = computed(store, getter);
+    Object.defineProperty(instance, name, { get: () => value.read(), enumerable: true });
+  }
+
+  for (const [name, action] of Object.entries(definition.actions ?? {})) {
+    claim(name);
+    const label = definition.id ? `${definition.id}/${name}` : name;
+    const view = actionView(instance as unknown as Store<S>, store, { action: label });
+    view.destroy = instance.destroy as () => void;
+    instance[name] = (...args: never[]) => action.apply(view, args);
+  }
+
+  return instance as unknown as DefinedStore<S, StoreGetters<S>, StoreActions>;
+}
+
+function fromCreator<T>(creator: StateCreator<T>, options?: StoreOptions<T>): Store<T> {
   let store: Store<T> | undefined;
 
   const get = (): T => {
@@ -33,7 +182,98 @@ export function defineStore<T>(creator: StateCreator<T>): Store<T> {
   };
 
   const initialState = creator(set, get);
-  store = createStore(initialState);
+  store = createStore(initialState, options);
   
   return store;
 }
+
+/**
+ * A slice of a store built with `createSlices`: the same `set`/`get` pair as
+ * `StateCreator`, but `set` only sees and writes the slice's own keys.
+ * `TState` is the combined state `get` returns, for reading sibling slices.
+ */
+export type SliceCreator<TSlice, TState = TSlice> = (
+  set: (partial: Partial<TSlice> | ((prev: TSlice) => TSlice)) => TState,
+  get: () => TState
+) => TSlice;
+
+type AnySliceCreator = (set: never, get: never) => object;
+
+type UnionToIntersection<U> =
+  (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+/** The state of a store composed from `S`: every slice's keys, merged. */
+export type SlicesState<S extends ReadonlyArray<AnySliceCreator>> =
+  UnionToIntersection<ReturnType<S[number]>>;
+
+/**
+ * Composes independent slice creators into one store. Each slice owns the
+ * keys it returns: its `set` merges into those keys only and throws on any
+ * other, so slices split across files can't overwrite each other. `get`
+ * returns the whole state.
+ *
+ * @example
+ * ```ts
+ * const cartSlice: SliceCreator<CartSlice, CartSlice & UserSlice> = (set, get) => ({
+ *   items: [],
+ *   add: item => set(s => ({ ...s, items: [...s.items, item] })),
+ *   checkout: () => api.order(get().userId, get().items),
+ * })
+ *
+ * const store = createSlices(cartSlice, userSlice) // Store<CartSlice & UserSlice>
+ * ```
+ */
+export function createSlices<S extends AnySliceCreator[]>(...slices: S): Store<SlicesState<S>> {
+  type State = SlicesState<S>;
+  let store: Store<State> | undefined;
+  const owner = new Map<string, number>();
+
+  const get = (): State => {
+    if (!store) {
+      throw new Error("Cannot call get during store initialization");
+    }
+    return store.read();
+  };
+
+  const scopedSet = (index: number) => (partial: object | ((prev: object) => object)): State => {
+    if (!store) {
+      throw new Error("Cannot call set during store initialization");
+    }
+
+    const current = store.read() as Record<string, unknown>;
+    let next: Record<string, unknown>;
+
+    if (typeof partial === "function") {
+      const own: Record<string, unknown> = {};
+      for (const [key, slice] of owner) {
+        if (slice === index) own[key] = current[key];
+      }
+      next = partial(own) as Record<string, unknown>;
+    } else {
+      next = partial as Record<string, unknown>;
+    }
+
+    for (const key of Object.keys(next)) {
+      if (owner.get(key) !== index) {
+        throw new Error(`Slice ${index} cannot set "${key}": the key belongs to another slice or to none`);
+      }
+    }
+
+    return store.set({ ...current, ...next } as State);
+  };
+
+  const initialState: Record<string, unknown> = {};
+  slices.forEach((creator, index) => {
+    const slice = (creator as unknown as SliceCreator<object, State>)(scopedSet(index), get);
+    for (const key of Object.keys(slice)) {
+      if (owner.has(key)) {
+        throw new Error(`Slice key "${key}" is declared by more than one slice`);
+      }
+      owner.set(key, index);
+    }
+    Object.assign(initialState, slice);
+  });
+  store = createStore(initialState as State);
+
+  return store;
+}
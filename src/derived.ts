@@ -7,13 +7,16 @@ export interface Derived<R> {
 }
 
 export function derive<T, R>(store: Store<T>, selector: Selector<T, R>): Derived<R> {
-  return {
+  const derived = {
     read() {
       return selector(store.snapshot() as DeepReadonly<T>)
     },
     subscribe(subscriber: Subscriber<R>, options?: SubscribeOptions<R>) {
       return store.subscribe(selector, subscriber, options)
     },
+    // Lets `observe()` complete the stream when `store` is destroyed.
+    upstream: store,
   }
+  return derived
 }
 
@@ -62,21 +62,21 @@ export function connectReduxDevTools<T>(
   // Send initial state
   devtools.init(store.read())
 
-  // Subscribe to state changes and send to devtools
-  let lastVersion = store.version
-  const unsubStore = store.subscribe(
-    (s) => s as unknown as T,
-    (next) => {
-      const currentVersion = store.version
-      if (currentVersion !== lastVersion) {
-        devtools.send(
-          { type: `update (v${currentVersion})` },
-          next
-        )
-        lastVersion = currentVersion
-      }
-    }
-  )
+  // Report commits from a plugin rather than a subscriber: only the commit
+  // path sees the write's `CommitMeta`, so actions show up under their own
+  // label instead of a generic `update (vN)`.
+  let applyingJump = false
+  const unsubStore = store.use({
+    name: "ReduxDevTools",
+    onAfterUpdate(prev, next, meta) {
+      // A jump requested by the extension must not be echoed back as a new action.
+      if (applyingJump || Object.is(prev, next)) return
+      devtools.send(
+        { type: meta?.action ?? `update (v${store.version})`, payload: meta },
+        next
+      )
+    },
+  })
 
   // Listen for time-travel from devtools
   const unsubDevtools = devtools.subscribe((message) => {
@@ -86,7 +86,9 @@ export function connectReduxDevTools<T>(
         if (message.state) {
           try {
             const parsed = JSON.parse(message.state) as T
-            store.set(parsed)
+            applyingJump = true
+            try { store.set(parsed, { action: `@@devtools/${payload.type}`, source: "devtools" }) }
+            finally { applyingJump = false }
           } catch {
             // Invalid state from devtools, ignore
           }
@@ -1,8 +1,15 @@
 import { Middleware } from "./middleware.js"
 
+export interface DevtoolsEventMeta {
+  version: number
+  name?: string
+  /** Action label from the write's `CommitMeta`, when one was given. */
+  action?: string
+}
+
 export interface DevtoolsConnection {
   init(state: unknown): void
-  send(op: string, payload: unknown, state: unknown, meta?: { version: number; name?: string }): void
+  send(op: string, payload: unknown, state: unknown, meta?: DevtoolsEventMeta): void
 }
 
 export function devtoolsMiddleware<T>(conn: DevtoolsConnection, name?: string): Middleware<T> {
@@ -15,14 +22,14 @@ export function devtoolsMiddleware<T>(conn: DevtoolsConnection, name?: string):
       }
     },
     after(op, ctx) {
-      conn.send(op, ctx.payload, ctx.snapshot, { version: ctx.version, name })
+      conn.send(op, ctx.payload, ctx.snapshot, { version: ctx.version, name, action: ctx.meta?.action })
     }
   }
 }
 
 export function createMemoryConnection() {
   const inits: unknown[] = []
-  const events: Array<{ op: string; payload: unknown; state: unknown; meta?: { version: number; name?: string } }> = []
+  const events: Array<{ op: string; payload: unknown; state: unknown; meta?: DevtoolsEventMeta }> = []
   const conn: DevtoolsConnection = {
     init(state: unknown) {
       inits.push(state)
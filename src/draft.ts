@@ -0,0 +1,352 @@
+import type { CommitMeta, DeepReadonly } from "./types.js"
+import type { Store } from "./store.js"
+import { readKey, writeKey } from "./path.js"
+
+/**
+ * The mutable view of `T` a `mutate` recipe receives. Strips `readonly` at
+ * every level, so a store typed with `DeepReadonly` data can still be drafted.
+ */
+export type Draft<T> =
+  T extends (...args: never[]) => unknown ? T :
+  T extends ReadonlyMap<infer K, infer V> ? Map<K, Draft<V>> :
+  T extends ReadonlySet<infer V> ? Set<V> :
+  T extends ReadonlyArray<infer U> ? Array<Draft<U>> :
+  T extends object ? { -readonly [K in keyof T]: Draft<T[K]> } :
+  T
+
+type Source = Record<PropertyKey, unknown>
+
+interface DraftState {
+  base: object
+  /** Shallow copy, created on the first write. `null` while untouched. */
+  copy: object | null
+  /** Child drafts handed out on read, keyed by property or Map key. */
+  drafts: Map<unknown, object>
+  /** Keys written by the recipe — their values may contain drafts. */
+  assigned: Set<unknown>
+  proxy: object
+  result?: object
+}
+
+/** Draft proxy → its state. Also answers "is this value a draft?". */
+type Scope = { states: WeakMap<object, DraftState>; revokes: Array<() => void> }
+
+function isDraftable(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) return false
+  if (Array.isArray(value) || value instanceof Map || value instanceof Set) return true
+  const proto = Object.getPrototypeOf(value) as unknown
+  return proto === Object.prototype || proto === null
+}
+
+function shallowCopy(base: object): object {
+  if (Array.isArray(base)) return (base as unknown[]).slice()
+  if (base instanceof Map) return new Map(base)
+  if (base instanceof Set) return new Set(base)
+  return Object.assign(Object.create(Object.getPrototypeOf(base) as object | null) as object, base)
+}
+
+function source(state: DraftState): object {
+  return state.copy ?? state.base
+}
+
+function ensureCopy(state: DraftState): object {
+  if (state.copy === null) state.copy = shallowCopy(state.base)
+  return state.copy
+}
+
+function createDraft(base: object, scope: Scope): object {
+  const state: DraftState = {
+    base,
+    copy: null,
+    drafts: new Map(),
+    assigned: new Set(),
+    proxy: null as unknown as object,
+  }
+  const target = Array.isArray(base) ? [] : {}
+  const handler = base instanceof Map
+    ? mapHandler(state, scope)
+    : base instanceof Set
+      ? setHandler(state)
+      : objectHandler(state, scope)
+  const { proxy, revoke } = Proxy.revocable(target, handler)
+  state.proxy = proxy
+  scope.states.set(proxy, state)
+  scope.revokes.push(revoke)
+  return proxy
+}
+
+function objectHandler(state: DraftState, scope: Scope): ProxyHandler<object> {
+  const isArray = Array.isArray(state.base)
+  return {
+    get(_target, prop) {
+      const src = source(state) as Source
+      if (!Object.prototype.hasOwnProperty.call(src, prop)) return Reflect.get(src, prop, state.proxy)
+      const existing = state.drafts.get(prop)
+      if (existing) return existing
+      const value = src[prop]
+      if (!isDraftable(value) || state.assigned.has(prop) || scope.states.has(value)) return value
+      const child = createDraft(value, scope)
+      state.drafts.set(prop, child)
+      return child
+    },
+    set(_target, prop, value: unknown) {
+      const src = source(state) as Source
+      if (Object.prototype.hasOwnProperty.call(src, prop) && !state.drafts.has(prop) && Object.is(src[prop], value)) {
+        return true
+      }
+      const copy = ensureCopy(state) as Source
+      copy[prop] = value
+      state.drafts.delete(prop)
+      state.assigned.add(prop)
+      if (isArray && prop === "length") {
+        // Truncation drops every drafted element past the new end.
+        for (const key of [...state.drafts.keys()]) {
+          if (Number(key) >= (value as number)) state.drafts.delete(key)
+        }
+      }
+      return true
+    },
+    deleteProperty(_target, prop) {
+      if (!Object.prototype.hasOwnProperty.call(source(state), prop)) return true
+      const copy = ensureCopy(state) as Source
+      delete copy[prop]
+      state.drafts.delete(prop)
+      state.assigned.delete(prop)
+      return true
+    },
+    has(_target, prop) {
+      return prop in source(state)
+    },
+    ownKeys() {
+      return Reflect.ownKeys(source(state))
+    },
+    getOwnPropertyDescriptor(_target, prop) {
+      const desc = Reflect.getOwnPropertyDescriptor(source(state), prop)
+      if (!desc) return undefined
+      // Report everything writable and configurable: the base may be frozen,
+      // and a proxy must not claim the draft is read-only.
+      return {
+        writable: true,
+        configurable: !isArray || prop !== "length",
+        enumerable: desc.enumerable,
+        value: (state.proxy as Source)[prop],
+      }
+    },
+    defineProperty(_target, prop, desc) {
+      const copy = ensureCopy(state) as Source
+      copy[prop] = desc.value
+      state.drafts.delete(prop)
+      state.assigned.add(prop)
+      return true
+    },
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base) as object | null
+    },
+    setPrototypeOf() {
+      throw new Error("Cannot change the prototype of a draft")
+    },
+  }
+}
+
+function mapHandler(state: DraftState, scope: Scope): ProxyHandler<object> {
+  const src = () => source(state) as Map<unknown, unknown>
+  const get = (key: unknown): unknown => {
+    const existing = state.drafts.get(key)
+    if (existing) return existing
+    const value = src().get(key)
+    if (!isDraftable(value) || state.assigned.has(key) || scope.states.has(value)) return value
+    const child = createDraft(value, scope)
+    state.drafts.set(key, child)
+    return child
+  }
+  function* entries(): IterableIterator<[unknown, unknown]> {
+    for (const key of [...src().keys()]) yield [key, get(key)]
+  }
+  const methods: Record<PropertyKey, unknown> = {
+    get,
+    has: (key: unknown) => src().has(key),
+    set(key: unknown, value: unknown) {
+      const map = src()
+      if (!(map.has(key) && !state.drafts.has(key) && Object.is(map.get(key), value))) {
+        const copy = ensureCopy(state) as Map<unknown, unknown>
+        copy.set(key, value)
+        state.drafts.delete(key)
+        state.assigned.add(key)
+      }
+      return state.proxy
+    },
+    delete(key: unknown) {
+      if (!src().has(key)) return false
+      const copy = ensureCopy(state) as Map<unknown, unknown>
+      copy.delete(key)
+      state.drafts.delete(key)
+      state.assigned.delete(key)
+      return true
+    },
+    clear() {
+      if (src().size === 0) return
+      const copy = ensureCopy(state) as Map<unknown, unknown>
+      copy.clear()
+      state.drafts.clear()
+      state.assigned.clear()
+    },
+    forEach(cb: (value: unknown, key: unknown, map: unknown) => void, thisArg?: unknown) {
+      for (const [key, value] of entries()) cb.call(thisArg, value, key, state.proxy)
+    },
+    keys: () => src().keys(),
+    *values() {
+      for (const [, value] of entries()) yield value
+    },
+    entries,
+    [Symbol.iterator]: entries,
+  }
+  return {
+    get(_target, prop) {
+      if (prop === "size") return src().size
+      if (Object.prototype.hasOwnProperty.call(methods, prop)) return methods[prop]
+      return Reflect.get(Map.prototype, prop) as unknown
+    },
+    getPrototypeOf: () => Map.prototype,
+  }
+}
+
+/**
+ * Set members are not drafted — Sets overwhelmingly hold primitives and ids.
+ * Replace an object member (`delete` + `add`) to change it.
+ */
+function setHandler(state: DraftState): ProxyHandler<object> {
+  const src = () => source(state) as Set<unknown>
+  const methods: Record<PropertyKey, unknown> = {
+    has: (value: unknown) => src().has(value),
+    add(value: unknown) {
+      if (!src().has(value)) (ensureCopy(state) as Set<unknown>).add(value)
+      return state.proxy
+    },
+    delete(value: unknown) {
+      if (!src().has(value)) return false
+      return (ensureCopy(state) as Set<unknown>).delete(value)
+    },
+    clear() {
+      if (src().size > 0) (ensureCopy(state) as Set<unknown>).clear()
+    },
+    forEach(cb: (value: unknown, key: unknown, set: unknown) => void, thisArg?: unknown) {
+      for (const value of [...src()]) cb.call(thisArg, value, value, state.proxy)
+    },
+    keys: () => src().values(),
+    values: () => src().values(),
+    entries: () => src().entries(),
+    [Symbol.iterator]: () => src().values(),
+  }
+  return {
+    get(_target, prop) {
+      if (prop === "size") return src().size
+      if (Object.prototype.hasOwnProperty.call(methods, prop)) return methods[prop]
+      return Reflect.get(Set.prototype, prop) as unknown
+    },
+    getPrototypeOf: () => Set.prototype,
+  }
+}
+
+/**
+ * Replaces any drafts nested inside a value the recipe assigned. Only freshly
+ * built containers can hold drafts, so in-place replacement never touches
+ * committed data.
+ */
+function resolve(value: unknown, scope: Scope, seen: Set<object>): unknown {
+  if (typeof value !== "object" || value === null) return value
+  const state = scope.states.get(value)
+  if (state) return finalize(state, scope)
+  if (!isDraftable(value) || Object.isFrozen(value) || seen.has(value)) return value
+  seen.add(value)
+  if (value instanceof Set) {
+    for (const member of [...value]) {
+      const next = resolve(member, scope, seen)
+      if (next !== member) { value.delete(member); value.add(next) }
+    }
+  } else if (value instanceof Map) {
+    for (const [key, member] of value) {
+      const next = resolve(member, scope, seen)
+      if (next !== member) value.set(key, next)
+    }
+  } else {
+    const record = value as Source
+    for (const key of Object.keys(record)) {
+      const next = resolve(record[key], scope, seen)
+      if (next !== record[key]) record[key] = next
+    }
+  }
+  return value
+}
+
+function finalize(state: DraftState, scope: Scope): object {
+  if (state.result) return state.result
+  for (const [key, child] of state.drafts) {
+    const next = finalize(scope.states.get(child)!, scope)
+    if (next !== readKey(state.base, key)) writeKey(ensureCopy(state), key, next)
+  }
+  if (state.copy !== null) {
+    const seen = new Set<object>()
+    for (const key of state.assigned) {
+      const value = readKey(state.copy, key)
+      const next = resolve(value, scope, seen)
+      if (next !== value) writeKey(state.copy, key, next)
+    }
+  }
+  state.result = state.copy ?? state.base
+  return state.result
+}
+
+/**
+ * Runs `recipe` against a copy-on-write draft of `base` and returns the next
+ * state. Untouched subtrees keep their identity; when nothing was written,
+ * `base` itself is returned.
+ *
+ * Drafts are revoked once the recipe returns, so a draft that escapes the
+ * recipe throws on use instead of silently mutating committed state.
+ *
+ * @example
+ * ```ts
+ * const next = produce(state, draft => {
+ *   draft.user.name = "Ada"
+ *   draft.tags.add("admin")
+ * })
+ * ```
+ */
+export function produce<T>(base: T, recipe: (draft: Draft<T>) => void): T {
+  if (!isDraftable(base)) {
+    throw new Error("produce() requires a plain object, array, Map or Set")
+  }
+  const scope: Scope = { states: new WeakMap(), revokes: [] }
+  const root = createDraft(base, scope)
+  try {
+    recipe(root as Draft<T>)
+    return finalize(scope.states.get(root)!, scope) as T
+  } finally {
+    for (const revoke of scope.revokes) revoke()
+  }
+}
+
+/**
+ * Writes to `store` through a copy-on-write draft instead of hand-written
+ * spreads, committing a structurally-shared result. The write is an ordinary
+ * `update`, so plugins, middleware and history see it like any other.
+ *
+ * Lives in the `exostate/draft` entry point, so stores that never draft don't
+ * ship the draft engine.
+ *
+ * @example
+ * ```ts
+ * import { mutate } from "exostate/draft"
+ *
+ * mutate(store, draft => {
+ *   draft.todos[0].done = true
+ * }, { action: "todos/complete" })
+ * ```
+ */
+export function mutate<T>(store: Store<T>, recipe: (draft: Draft<T>) => void, meta?: CommitMeta): T {
+  return store.update(draftReducer<T>, recipe, meta)
+}
+
+function draftReducer<T>(prev: DeepReadonly<T>, recipe: (draft: Draft<T>) => void): T {
+  return produce(prev as T, recipe)
+}
@@ -1,4 +1,5 @@
 import { Equality } from "./types.js"
+import { isPlainObject } from "./path.js"
 
 /**
  * Shallow structural equality — compares own enumerable keys one level deep.
@@ -90,3 +91,31 @@ export function deepEqual(a: unknown, b: unknown): boolean {
   }
   return true
 }
+
+/**
+ * Returns `next`, but with every subtree that deep-equals its counterpart in
+ * `prev` replaced by the `prev` reference — and `prev` itself when nothing
+ * changed. Selectors over the result then see new identities only where data
+ * actually changed. Only plain objects and arrays are shared; anything else
+ * is taken from `next` unless it is the same value.
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  if (Object.is(prev, next)) return next
+  const arrays = Array.isArray(prev) && Array.isArray(next)
+  if (!arrays && !(isPlainObject(prev) && isPlainObject(next))) return next
+
+  const before = prev as Record<string, unknown>
+  const after = next as Record<string, unknown>
+  const keys = Object.keys(after)
+  const copy: Record<string, unknown> = arrays ? [] as unknown as Record<string, unknown> : {}
+  let reused = 0
+  for (const key of keys) {
+    const value = replaceEqualDeep(before[key], after[key])
+    copy[key] = value
+    if (value === before[key] && (value !== undefined || Object.prototype.hasOwnProperty.call(before, key))) {
+      reused++
+    }
+  }
+  const same = keys.length === Object.keys(before).length && reused === keys.length
+  return (same ? prev : copy) as T
+}
@@ -0,0 +1,242 @@
+import {
+  Reducer,
+  Selector,
+  Subscriber,
+  Unsubscribe,
+  SubscribeOptions,
+  DeepReadonly,
+  Compute,
+  Effect,
+  ExostatePlugin,
+  CommitMeta,
+  StatePath,
+} from "./types.js"
+import { Store } from "./store.js"
+import { readPath, writePath, toPath } from "./path.js"
+import { isInternalPlugin, useInternal } from "./internal-plugins.js"
+
+interface LensRegistration<U> {
+  plugin: ExostatePlugin<U>
+  detach: Unsubscribe
+}
+
+/**
+ * A `Store<U>` over a slice of a parent store. Holds no state of its own:
+ * reads go through `get`, and every write is a single parent commit that
+ * rebuilds the parent with `put`, so parent plugins, middleware, history and
+ * batching all see it.
+ */
+class FocusedStore<T, U> implements Store<U> {
+  private cachedSource: T | undefined = undefined
+  private cachedValue: U | undefined = undefined
+  private cached = false
+  private closed = false
+  private registrations: Array<LensRegistration<U>> = []
+  // Parent subscriptions opened through this lens, released by `destroy()`.
+  private owned = new Set<Unsubscribe>()
+
+  constructor(
+    private readonly parent: Store<T>,
+    private readonly get: (state: T) => U,
+    private readonly put: (state: T, value: U) => T
+  ) {}
+
+  get version() {
+    return this.parent.version
+  }
+
+  get destroyed() {
+    return this.closed || this.parent.destroyed
+  }
+
+  private checkDestroyed() {
+    if (this.destroyed) throw new Error('Store is destroyed')
+  }
+
+  /** The slice of `state`, memoized on the parent state's identity. */
+  private view(state: T): U {
+    if (!this.cached || !Object.is(state, this.cachedSource)) {
+      this.cachedSource = state
+      this.cachedValue = this.get(state)
+      this.cached = true
+    }
+    return this.cachedValue as U
+  }
+
+  private write(fn: (prev: U) => U, meta?: CommitMeta): U {
+    this.checkDestroyed()
+    this.parent.compute(prev => this.put(prev as T, fn(this.view(prev as T))), meta)
+    return this.read()
+  }
+
+  private own(unsubscribe: Unsubscribe): Unsubscribe {
+    this.owned.add(unsubscribe)
+    return () => {
+      if (!this.owned.delete(unsubscribe)) return
+      unsubscribe()
+    }
+  }
+
+  read() {
+    return this.view(this.parent.read())
+  }
+
+  snapshot() {
+    return this.read() as DeepReadonly<U>
+  }
+
+  set(next: U, meta?: CommitMeta) {
+    return this.write(() => next, meta)
+  }
+
+  update<P>(reducer: Reducer<U, P>, payload: P, meta?: CommitMeta) {
+    return this.write(prev => reducer(prev as DeepReadonly<U>, payload), meta)
+  }
+
+  compute(fn: Compute<U>, meta?: CommitMeta) {
+    return this.write(prev => fn(prev as DeepReadonly<U>), meta)
+  }
+
+  batch(apply: (apply: <P>(reducer: Reducer<U, P>, payload: P) => void) => void, meta?: CommitMeta) {
+    return this.write(prev => {
+      let next = prev
+      apply((reducer, payload) => {
+        next = reducer(next as DeepReadonly<U>, payload)
+      })
+      return next
+    }, meta)
+  }
+
+  patch(partial: Partial<U> | ((prev: DeepReadonly<U>) => Partial<U>), meta?: CommitMeta) {
+    return this.write(prev => {
+      const p = typeof partial === 'function'
+        ? (partial as (prev: DeepReadonly<U>) => Partial<U>)(prev as DeepReadonly<U>)
+        : partial
+      return Object.assign({}, prev, p)
+    }, meta)
+  }
+
+  getInitialState() {
+    return this.get(this.parent.getInitialState())
+  }
+
+  /** Writes the slice of the parent's initial state; the rest stays as is. */
+  reset(meta?: CommitMeta) {
+    return this.set(this.getInitialState(), meta)
+  }
+
+  effect<P>(fn: Effect<U, P>, payload: P) {
+    return fn(this.read() as DeepReadonly<U>, payload)
+  }
+
+  subscribe<R>(selector: Selector<U, R>, subscriber: Subscriber<R>, options?: SubscribeOptions<R>) {
+    this.checkDestroyed()
+    return this.own(this.parent.subscribe(
+      state => selector(this.view(state as T) as DeepReadonly<U>),
+      subscriber,
+      options
+    ))
+  }
+
+  /**
+   * Attaches `plugin` to the parent, translated to this slice: hooks only run
+   * for commits that change the slice, and see slice values. A value returned
+   * from `onBeforeUpdate` is written back into the parent state.
+   */
+  use(plugin: ExostatePlugin<U>): Unsubscribe {
+    this.checkDestroyed()
+    const adapted: ExostatePlugin<T> = { name: plugin.name }
+    if (plugin.onInit) adapted.onInit = () => plugin.onInit!(this)
+    if (plugin.onBeforeUpdate) {
+      adapted.onBeforeUpdate = (prev, next, meta) => {
+        const before = this.get(prev as T)
+        const after = this.get(next)
+        if (Object.is(before, after)) return
+        const replaced = plugin.onBeforeUpdate!(before as DeepReadonly<U>, after, meta)
+        return replaced === undefined ? undefined : this.put(next, replaced)
+      }
+    }
+    if (plugin.onAfterUpdate) {
+      adapted.onAfterUpdate = (prev, next, meta) => {
+        const before = this.get(prev as T)
+        const after = this.get(next)
+        if (Object.is(before, after)) return
+        plugin.onAfterUpdate!(before as DeepReadonly<U>, after, meta)
+      }
+    }
+    if (plugin.onNotify) adapted.onNotify = (value, listener) => plugin.onNotify!(value, listener)
+    if (plugin.onSubscribe) adapted.onSubscribe = count => plugin.onSubscribe!(count)
+    if (plugin.onUnsubscribe) adapted.onUnsubscribe = count => plugin.onUnsubscribe!(count)
+    if (plugin.onDestroy) adapted.onDestroy = () => plugin.onDestroy!()
+    if (plugin.onError) adapted.onError = error => plugin.onError!(error)
+
+    const detach = isInternalPlugin(plugin) ? useInternal(this.parent, adapted) : this.parent.use(adapted)
+    const registration: LensRegistration<U> = { plugin, detach }
+    this.registrations.push(registration)
+    return () => {
+      const idx = this.registrations.indexOf(registration)
+      if (idx < 0) return
+      this.registrations.splice(idx, 1)
+      registration.detach()
+    }
+  }
+
+  plugins(): ReadonlyArray<ExostatePlugin<U>> {
+    return this.registrations.map(r => r.plugin).filter(plugin => !isInternalPlugin(plugin))
+  }
+
+  flush() {
+    this.parent.flush()
+  }
+
+  /**
+   * Detaches everything attached through this lens — subscriptions and
+   * plugins (which get `onDestroy`). The parent store is left running.
+   */
+  destroy() {
+    if (this.closed) return
+    this.closed = true
+    for (const unsubscribe of this.owned) unsubscribe()
+    this.owned.clear()
+    const registrations = this.registrations
+    this.registrations = []
+    for (const { plugin, detach } of registrations) {
+      plugin.onDestroy?.()
+      detach()
+    }
+  }
+}
+
+/**
+ * Focuses a store onto a slice, returning a full `Store<U>` that reads and
+ * writes that slice through the parent. Hand a component `focus(app,
+ * "user.address")` instead of the whole app store; generic helpers such as
+ * `createHistory` and `persistLocal` work on the result as-is.
+ *
+ * Pass a path (an array, or a dotted string) or a getter/setter pair. The
+ * setter must return a new parent state and leave the input untouched.
+ *
+ * @example
+ * ```ts
+ * const theme = focus<AppState, string>(app, "settings.theme")
+ * theme.set("dark")
+ *
+ * const first = focus(app, s => s.todos[0]!, (s, todo) => ({ ...s, todos: [todo, ...s.todos.slice(1)] }))
+ * ```
+ */
+export function focus<T, U = unknown>(
+  store: Store<T>,
+  pathOrGet: StatePath | string | ((state: T) => U),
+  set?: (state: T, value: U) => T
+): Store<U> {
+  if (typeof pathOrGet === "function") {
+    if (!set) throw new Error("focus() needs a setter alongside the getter")
+    return new FocusedStore(store, pathOrGet, set)
+  }
+  const path = toPath(pathOrGet)
+  return new FocusedStore(
+    store,
+    state => readPath(state, path) as U,
+    (state, value) => writePath(state, path, value) as T
+  )
+}
@@ -1,16 +1,19 @@
-import { DeepReadonly, Unsubscribe } from "./types.js"
+import { CommitMeta, DeepReadonly, Unsubscribe } from "./types.js"
 import { Store } from "./store.js"
+import { useInternal } from "./internal-plugins.js"
 
 export interface History<T> {
   canUndo(): boolean
   canRedo(): boolean
   undo(): T | undefined
   redo(): T | undefined
-  record(state?: DeepReadonly<T>): void
+  record(state?: DeepReadonly<T>, meta?: CommitMeta): void
   clear(): void
   size(): number
   pointer(): number
   entries(): ReadonlyArray<DeepReadonly<T>>
+  /** Metadata of the write that produced each entry, parallel to `entries()`. */
+  metas(): ReadonlyArray<CommitMeta | undefined>
   jumpTo(index: number): T | undefined
 }
 
@@ -22,17 +25,21 @@ export interface HistoryOptions {
 export function createHistory<T>(store: Store<T>, options?: HistoryOptions) {
   const limit = options?.limit ?? 100
   const items: Array<DeepReadonly<T>> = []
+  const labels: Array<CommitMeta | undefined> = []
   let idx = -1
   let unsub: Unsubscribe | null = null
   let suppress = false
   
-  function push(state: DeepReadonly<T>) {
+  function push(state: DeepReadonly<T>, meta?: CommitMeta) {
     if (idx < items.length - 1) {
       items.splice(idx + 1)
+      labels.splice(idx + 1)
     }
     items.push(state)
+    labels.push(meta)
     if (items.length > limit) {
       items.shift()
+      labels.shift()
       idx -= 1
     }
     idx = items.length - 1
@@ -50,7 +57,7 @@ export function createHistory<T>(store: Store<T>, options?: HistoryOptions) {
       idx -= 1
       const state = items[idx]
       suppress = true
-      try { store.set(state as unknown as T) }
+      try { store.set(state as unknown as T, { action: "history/undo" }) }
       finally { suppress = false }
       return store.read()
     },
@@ -59,16 +66,17 @@ export function createHistory<T>(store: Store<T>, options?: HistoryOptions) {
       idx += 1
       const state = items[idx]
       suppress = true
-      try { store.set(state as unknown as T) }
+      try { store.set(state as unknown as T, { action: "history/redo" }) }
       finally { suppress = false }
       return store.read()
     },
-    record(state?: DeepReadonly<T>) {
+    record(state?: DeepReadonly<T>, meta?: CommitMeta) {
       const snap = state ?? store.snapshot()
-      push(snap)
+      push(snap, meta)
     },
     clear() {
       items.splice(0)
+      labels.splice(0)
       idx = -1
     },
     size() {
@@ -80,12 +88,15 @@ export function createHistory<T>(store: Store<T>, options?: HistoryOptions) {
     entries() {
       return items
     },
+    metas() {
+      return labels
+    },
     jumpTo(index: number) {
       if (index < 0 || index >= items.length) return undefined
       idx = index
       const state = items[idx]
       suppress = true
-      try { store.set(state as unknown as T) }
+      try { store.set(state as unknown as T, { action: "history/jumpTo" }) }
       finally { suppress = false }
       return store.read()
     },
@@ -93,10 +104,28 @@ export function createHistory<T>(store: Store<T>, options?: HistoryOptions) {
   
   function attach() {
     if (unsub) return
-    unsub = store.subscribe(s => s as unknown as T, (next) => {
-      if (suppress) return
-      api.record(next as unknown as DeepReadonly<T>)
+    let meta: CommitMeta | undefined
+    // Entries come from the subscription, so writes the store notifies as one
+    // batch (`notify: "microtask"`, `batch()`) make one undo step. The plugin
+    // only carries each commit's meta over to it, and records right away the
+    // writes that ask for their own step.
+    const stopPlugin = useInternal(store, {
+      name: "ExostateHistory",
+      onAfterUpdate(prev, next, commitMeta) {
+        if (suppress || Object.is(prev, next)) return
+        meta = commitMeta
+        if (commitMeta?.historyStep) api.record(next as unknown as DeepReadonly<T>, commitMeta)
+      },
+    })
+    const stopListening = store.subscribe(s => s as unknown as T, (next) => {
+      // An entry already holds `next` after a step or an undo notified late.
+      if (suppress || Object.is(next, items[idx])) return
+      api.record(next as unknown as DeepReadonly<T>, meta)
     })
+    unsub = () => {
+      stopPlugin()
+      stopListening()
+    }
   }
   
   function detach() {
@@ -0,0 +1,117 @@
+import { ExostatePlugin } from "./types.js"
+import { Store, StoreImpl } from "./store.js"
+import { listStores, unregisterStore } from "./registry.js"
+import { isInternalPlugin } from "./internal-plugins.js"
+
+/**
+ * The part of a bundler's hot module API that `acceptHMR` uses. Vite's
+ * `import.meta.hot` and webpack's `module.hot` both fit.
+ */
+export interface HotContext {
+  /** Carried from a module's disposed run to its next one. */
+  readonly data?: Record<string, unknown>
+  accept(): void
+  dispose(callback: (data: Record<string, unknown>) => void): void
+}
+
+// A `defineStore` store delegates to the `StoreImpl` it is built on.
+function implOf<T>(store: Store<T>): StoreImpl<T> | undefined {
+  let current: object | null = store
+  while (current !== null && Object.getPrototypeOf(current) !== StoreImpl.prototype) {
+    current = Object.getPrototypeOf(current) as object | null
+  }
+  return (current ?? undefined) as StoreImpl<T> | undefined
+}
+
+// The parts of `StoreImpl` a takeover moves between instances.
+interface StoreInternals<T> {
+  current: T
+  version: number
+  listeners: Set<() => void>
+  registrations: Array<{ plugin: ExostatePlugin<T>; cleanup?: () => void }>
+  rebuildHooks(): void
+  scheduleNotify(): void
+}
+
+/**
+ * Moves `prev`'s state, listeners, open streams and the plugins `next` lacks
+ * (matched by name) onto `next`, then destroys `prev`. Every field of `prev`
+ * then reads and writes through to `next`, so its methods, and the closures
+ * its subscriptions left behind, keep working on the new store.
+ */
+function adopt<T>(next: StoreImpl<T>, prev: StoreImpl<T>) {
+  if (prev === next || prev.destroyed || next.destroyed) return
+  // Deliver what `prev` still owes, so moved listeners start from its state.
+  prev.flush()
+  const from = prev as unknown as StoreInternals<T>
+  const to = next as unknown as StoreInternals<T>
+
+  // A lazy store nobody read has no state worth keeping; its `current` is
+  // still the accessor that would run the initializer.
+  if (Object.getOwnPropertyDescriptor(prev, "current")?.get === undefined) {
+    to.current = from.current
+    to.version = Math.max(to.version, from.version) + 1
+  }
+  to.listeners = new Set([...to.listeners, ...from.listeners])
+  from.listeners = new Set()
+
+  const names = new Set(to.registrations.map(r => r.plugin.name))
+  // Library plugins — open streams, history — always move: they belong to
+  // whoever holds them, not to the module that created the store.
+  const moved = from.registrations.filter(r => isInternalPlugin(r.plugin) || !names.has(r.plugin.name))
+  for (const registration of moved) {
+    registration.cleanup?.()
+    const cleanup = registration.plugin.onInit?.(next)
+    registration.cleanup = typeof cleanup === "function" ? cleanup : undefined
+    to.registrations.push(registration)
+  }
+  to.rebuildHooks()
+  // Moved plugins live on in `next`; `destroy` must not call their `onDestroy`.
+  from.registrations = from.registrations.filter(r => !moved.includes(r))
+  prev.destroy()
+
+  const target = next as unknown as Record<string, unknown>
+  for (const field of Object.keys(prev)) {
+    Object.defineProperty(prev, field, {
+      get: () => target[field],
+      set: (value: unknown) => { target[field] = value },
+      configurable: true,
+    })
+  }
+  if (to.listeners.size > 0) to.scheduleNotify()
+}
+
+/**
+ * Keeps a store's state across hot module replacement. Call it in the module
+ * that creates the store; when the module is edited and re-runs, the new
+ * store adopts the old one's state, listeners and plugins, and the old one is
+ * destroyed but forwards to the new one, so components still holding it keep
+ * rendering live state.
+ *
+ * `key` tells stores apart within one module. It defaults to the store's
+ * registry name. Does nothing when `hot` is undefined, as in production.
+ *
+ * @example
+ * ```ts
+ * export const cart = createStore({ items: [] }, { plugins: [registerAs("cart")] })
+ * acceptHMR(cart, import.meta.hot)
+ * ```
+ */
+export function acceptHMR<T>(store: Store<T>, hot: HotContext | undefined, key?: string): void {
+  if (!hot) return
+  const impl = implOf(store)
+  if (!impl) throw new Error("acceptHMR() needs a store made by createStore or defineStore")
+  const name = listStores().find(entry => entry.store === store)?.name
+  const slot = `exostate:${key ?? name ?? "store"}`
+
+  const prev = hot.data?.[slot] as StoreImpl<T> | undefined
+  if (prev) adopt(impl, prev)
+
+  hot.dispose(data => {
+    data[slot] = impl
+    // The module's next run creates its store under the same name; freeing it
+    // first spares that run the registry's duplicate-name warning.
+    if (name !== undefined) unregisterStore(name)
+  })
+  hot.accept()
+}
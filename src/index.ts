@@ -1,6 +1,7 @@
 export * from "./state.js"
 export * from "./types.js"
 export * from "./store.js"
+export * from "./schedulers.js"
 export * from "./derived.js"
 export * from "./history.js"
 export * from "./persist.js"
@@ -12,16 +13,21 @@ export * from "./devtools.js"
 export * from "./ssr.js"
 export * from "./combine.js"
 export * from "./errors.js"
+export * from "./report-errors.js"
 export * from "./schema.js"
 export * from "./computed.js"
 export * from "./define-store.js"
 export * from "./async-action.js"
 export * from "./plugin.js"
 export * from "./store-factory.js"
+export * from "./registry.js"
+export * from "./observe.js"
+export * from "./hmr.js"
 export * from "./event-source.js"
 export * from "./devtools-redux.js"
 export * from "./equality.js"
 export * from "./query.js"
+export * from "./persist-query.js"
 
 // Filesystem persistence is intentionally NOT exported here — it lives in
 // `exostate/node`, because a top-level `node:fs` import in the main entry
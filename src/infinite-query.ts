@@ -0,0 +1,207 @@
+import type { Store } from "./store.js"
+import type { Unsubscribe } from "./types.js"
+import type { QueryClient, QueryFunctionContext, QueryKey, QueryOptions, QueryState } from "./query.js"
+
+/** Which end of an infinite query a fetch extends. */
+export type FetchDirection = "forward" | "backward"
+
+/** The data of an infinite query: loaded pages, with the param each was fetched with. */
+export interface InfiniteData<TPage, TParam> {
+  pages: TPage[]
+  pageParams: TParam[]
+}
+
+export interface InfiniteQueryFunctionContext<TParam> extends QueryFunctionContext {
+  pageParam: TParam
+  /** Set when the page extends the list; absent for the first page and refetches. */
+  direction?: FetchDirection
+}
+
+export interface InfiniteQueryObserverOptions<TPage, TParam>
+  extends QueryOptions<InfiniteData<TPage, TParam>> {
+  queryKey: QueryKey
+  queryFn: (context: InfiniteQueryFunctionContext<TParam>) => Promise<TPage>
+  /** Param of the first page. */
+  initialPageParam: TParam
+  /** Param of the page after `lastPage`, or `undefined`/`null` when there is none. */
+  getNextPageParam: (
+    lastPage: TPage,
+    allPages: TPage[],
+    lastPageParam: TParam,
+    allPageParams: TParam[]
+  ) => TParam | undefined | null
+  /** Param of the page before `firstPage`, or `undefined`/`null` when there is none. */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    allPages: TPage[],
+    firstPageParam: TParam,
+    allPageParams: TParam[]
+  ) => TParam | undefined | null
+  /** Pages kept at most; loading one more drops a page from the other end. Default: unlimited. */
+  maxPages?: number
+}
+
+export interface InfiniteQueryState<TPage, TParam> extends QueryState<InfiniteData<TPage, TParam>> {
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+  isFetchingNextPage: boolean
+  isFetchingPreviousPage: boolean
+}
+
+export interface InfiniteQueryObserver<TPage, TParam> {
+  /** Live state store for this query. Its state lacks the page flags `getState` adds. */
+  readonly store: Store<QueryState<InfiniteData<TPage, TParam>>>
+  getState(): InfiniteQueryState<TPage, TParam>
+  subscribe(listener: (state: InfiniteQueryState<TPage, TParam>) => void): Unsubscribe
+  /** Loads the page after the last one. Resolves at once when there is none. */
+  fetchNextPage(): Promise<InfiniteData<TPage, TParam>>
+  /** Loads the page before the first one. Resolves at once when there is none. */
+  fetchPreviousPage(): Promise<InfiniteData<TPage, TParam>>
+  /** Refetches every loaded page, first to last. */
+  refetch(): Promise<InfiniteData<TPage, TParam>>
+  destroy(): void
+}
+
+// The direction of the fetch in flight on a query's store, set by
+// `fetchNextPage` / `fetchPreviousPage`. Keyed by store so every observer of
+// the key sees it, whichever of them registered the query function.
+const extending = new WeakMap<object, { direction: FetchDirection }>()
+
+function pageParamAfter<TPage, TParam>(
+  options: InfiniteQueryObserverOptions<TPage, TParam>,
+  data: InfiniteData<TPage, TParam>
+): TParam | undefined | null {
+  const last = data.pages.length - 1
+  if (last < 0) return undefined
+  return options.getNextPageParam(data.pages[last]!, data.pages, data.pageParams[last]!, data.pageParams)
+}
+
+function pageParamBefore<TPage, TParam>(
+  options: InfiniteQueryObserverOptions<TPage, TParam>,
+  data: InfiniteData<TPage, TParam>
+): TParam | undefined | null {
+  if (data.pages.length === 0 || !options.getPreviousPageParam) return undefined
+  return options.getPreviousPageParam(data.pages[0]!, data.pages, data.pageParams[0]!, data.pageParams)
+}
+
+/**
+ * The query function an infinite query's entry runs. With a `direction` it
+ * adds one page at that end; otherwise it loads the first page or, when
+ * pages are loaded, refetches them all in order, recomputing each param from
+ * the fresh page before it.
+ */
+function infiniteQueryFn<TPage, TParam>(
+  options: InfiniteQueryObserverOptions<TPage, TParam>,
+  current: () => InfiniteData<TPage, TParam> | undefined,
+  directionOf: () => FetchDirection | undefined
+): (context: QueryFunctionContext) => Promise<InfiniteData<TPage, TParam>> {
+  return async ({ queryKey, signal }) => {
+    const direction = directionOf()
+    const fetchPage = (pageParam: TParam, extending?: FetchDirection) =>
+      options.queryFn(extending === undefined ? { queryKey, signal, pageParam } : { queryKey, signal, pageParam, direction: extending })
+    const data = current()
+    if (!data || data.pages.length === 0) {
+      const page = await fetchPage(options.initialPageParam)
+      return { pages: [page], pageParams: [options.initialPageParam] }
+    }
+
+    if (direction !== undefined) {
+      const forward = direction === "forward"
+      const param = forward ? pageParamAfter(options, data) : pageParamBefore(options, data)
+      if (param === undefined || param === null) return data
+      const page = await fetchPage(param, direction)
+      let pages = forward ? [...data.pages, page] : [page, ...data.pages]
+      let pageParams = forward ? [...data.pageParams, param] : [param, ...data.pageParams]
+      if (options.maxPages !== undefined && pages.length > options.maxPages) {
+        const start = forward ? pages.length - options.maxPages : 0
+        pages = pages.slice(start, start + options.maxPages)
+        pageParams = pageParams.slice(start, start + options.maxPages)
+      }
+      return { pages, pageParams }
+    }
+
+    const refetched: InfiniteData<TPage, TParam> = { pages: [], pageParams: [] }
+    for (let i = 0; i < data.pages.length; i++) {
+      // The first param is reused as is: `initialPageParam` may well be `null`.
+      const param = i === 0 ? data.pageParams[0] as TParam : pageParamAfter(options, refetched)
+      if (i > 0 && (param === undefined || param === null)) break
+      refetched.pages.push(await fetchPage(param as TParam))
+      refetched.pageParams.push(param as TParam)
+    }
+    return refetched
+  }
+}
+
+/**
+ * Starts observing a cursor-paginated query on `client`. Its data is `{
+ * pages, pageParams }`: the first page loads like a normal query, and
+ * `fetchNextPage` / `fetchPreviousPage` add one page at either end, with the
+ * same deduplication, retries and garbage collection. A refetch — stale on
+ * mount, invalidation, focus — revalidates every loaded page in order.
+ *
+ * While any fetch for the key is in flight, calling `fetchNextPage` joins it
+ * rather than starting a second request.
+ *
+ * @example
+ * ```ts
+ * const feed = watchInfinite(client, {
+ *   queryKey: ['feed'],
+ *   queryFn: ({ pageParam, signal }) => api.feed({ cursor: pageParam, signal }),
+ *   initialPageParam: null as string | null,
+ *   getNextPageParam: last => last.nextCursor,
+ * })
+ * feed.subscribe(s => render(s.data?.pages.flatMap(p => p.items), s.hasNextPage))
+ * onScrollEnd(() => feed.fetchNextPage())
+ * ```
+ */
+export function watchInfinite<TPage, TParam>(
+  client: QueryClient,
+  options: InfiniteQueryObserverOptions<TPage, TParam>
+): InfiniteQueryObserver<TPage, TParam> {
+  type TData = InfiniteData<TPage, TParam>
+  const key = options.queryKey
+  // The first fetch may start inside `watch`, before `observer` is assigned.
+  let store: Store<QueryState<TData>> | undefined
+  const queryFn = infiniteQueryFn(
+    options,
+    () => client.getQueryData<TData>(key),
+    () => (store ? extending.get(store)?.direction : undefined)
+  )
+  const observer = client.watch<TData>({ ...options, queryFn })
+  store = observer.store
+
+  const pageState = (state: QueryState<TData>): InfiniteQueryState<TPage, TParam> => {
+    const data = state.data
+    const next = data ? pageParamAfter(options, data) : undefined
+    const previous = data ? pageParamBefore(options, data) : undefined
+    const direction = state.isFetching ? extending.get(observer.store)?.direction : undefined
+    return {
+      ...observer.getState(),
+      hasNextPage: next !== undefined && next !== null,
+      hasPreviousPage: previous !== undefined && previous !== null,
+      isFetchingNextPage: direction === "forward",
+      isFetchingPreviousPage: direction === "backward",
+    }
+  }
+  const extend = (direction: FetchDirection, has: (state: InfiniteQueryState<TPage, TParam>) => boolean) => {
+    const state = pageState(observer.store.read())
+    if (state.data !== undefined && !has(state)) return Promise.resolve(state.data)
+    // A fetch in flight, even a paused one, is joined as it is.
+    if (state.fetchStatus !== "idle") return observer.refetch()
+    const fetch = { direction }
+    extending.set(observer.store, fetch)
+    return observer.refetch().finally(() => {
+      if (extending.get(observer.store) === fetch) extending.delete(observer.store)
+    })
+  }
+
+  return {
+    store: observer.store,
+    getState: () => pageState(observer.store.read()),
+    subscribe: (listener) => observer.subscribe(state => listener(pageState(state))),
+    fetchNextPage: () => extend("forward", state => state.hasNextPage),
+    fetchPreviousPage: () => extend("backward", state => state.hasPreviousPage),
+    refetch: () => observer.refetch(),
+    destroy: () => observer.destroy(),
+  }
+}
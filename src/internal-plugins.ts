@@ -0,0 +1,18 @@
+import type { ExostatePlugin, Unsubscribe } from "./types.js"
+
+// Plugins the library attaches for its own bookkeeping. `plugins()` leaves
+// them out, so they never show up as something the app installed.
+const internal = new WeakSet<object>()
+
+export function isInternalPlugin(plugin: object): boolean {
+  return internal.has(plugin)
+}
+
+/** Attaches `plugin` to `store` without listing it in `store.plugins()`. */
+export function useInternal<T>(
+  store: { use(plugin: ExostatePlugin<T>): Unsubscribe },
+  plugin: ExostatePlugin<T>
+): Unsubscribe {
+  internal.add(plugin)
+  return store.use(plugin)
+}
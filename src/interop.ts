@@ -0,0 +1,174 @@
+import { ExostatePlugin, Observable, ObservableSubscription, Observer, Subscribable, Unsubscribe } from "./types.js"
+import { useInternal } from "./internal-plugins.js"
+
+/**
+ * The key an interop observable is found under: `Symbol.observable` where a
+ * polyfill installed it, `Symbol.for("observable")` otherwise.
+ */
+export const observableSymbol: unique symbol =
+  ((Symbol as { observable?: symbol }).observable ?? Symbol.for("observable")) as never
+
+/** What `observe()` builds its observable and async iterator from. */
+export interface ValueSource<T> {
+  read(): T
+  /** Calls back with each new value. */
+  listen(onChange: (value: T) => void): Unsubscribe
+  /** Calls back once when the source is destroyed, if it can be. */
+  onClose?(close: () => void): Unsubscribe
+}
+
+/** Implemented by combined views, which stream and close on their own. */
+interface InteropSource<T> {
+  interopSource(): ValueSource<T>
+}
+
+/** A value computed from a store: it streams through its own `subscribe` and closes with `upstream`. */
+interface DerivedLike<T> {
+  read(): T
+  subscribe(subscriber: (value: T) => void): Unsubscribe
+  readonly upstream: { read(): unknown }
+}
+
+// RxJS and friends use `Symbol.observable` when it is polyfilled and the
+// "@@observable" string otherwise; answer to both.
+const OBSERVABLE_KEYS: PropertyKey[] = [observableSymbol, "@@observable"]
+
+/** The part of a store `observe()` needs. */
+interface StoreLike<T> {
+  read(): T
+  subscribe(selector: (state: T) => T, subscriber: (value: T) => void): Unsubscribe
+  use(plugin: ExostatePlugin<T>): Unsubscribe
+}
+
+/** The value source behind a store, a focused slice, a derived value or a combined view. */
+export function sourceOf<T>(source: { read(): T }): ValueSource<T> {
+  const interop = (source as Partial<InteropSource<T>>).interopSource
+  if (typeof interop === "function") return interop.call(source)
+  const derived = source as Partial<DerivedLike<T>>
+  if (derived.upstream) {
+    const upstream = sourceOf(derived.upstream)
+    return {
+      read: () => source.read(),
+      listen: onChange => derived.subscribe!(onChange),
+      onClose: close => upstream.onClose?.(close) ?? (() => {}),
+    }
+  }
+  const store = source as Partial<StoreLike<T>>
+  if (typeof store.subscribe !== "function" || typeof store.use !== "function") {
+    throw new Error("observe() expects a store, a derived value or a combined view")
+  }
+  return storeSource(store as StoreLike<T>)
+}
+
+// Streams close through a plugin's `onDestroy`, so stores carry no interop
+// code of their own. The plugin stays out of `store.plugins()`.
+function storeSource<T>(store: StoreLike<T>): ValueSource<T> {
+  return {
+    read: () => store.read(),
+    listen: onChange => store.subscribe(state => state, onChange),
+    onClose: close => useInternal(store, { name: "ExostateObserve", onDestroy: close }),
+  }
+}
+
+export function toObservable<T>(source: ValueSource<T>): Observable<T> {
+  const observable = {
+    subscribe(observerOrNext: Observer<T> | ((value: T) => void)): ObservableSubscription {
+      const observer: Observer<T> = typeof observerOrNext === "function" ? { next: observerOrNext } : observerOrNext
+      let closed = false
+      let stopListening: Unsubscribe | null = null
+      let stopClose: Unsubscribe | null = null
+      const subscription = {
+        get closed() {
+          return closed
+        },
+        unsubscribe() {
+          if (closed) return
+          closed = true
+          stopListening?.()
+          stopClose?.()
+        },
+      }
+      observer.next?.(source.read())
+      if (closed) return subscription
+      stopListening = source.listen(value => {
+        if (!closed) observer.next?.(value)
+      })
+      stopClose = source.onClose?.(() => {
+        if (closed) return
+        subscription.unsubscribe()
+        observer.complete?.()
+      }) ?? null
+      return subscription
+    },
+  }
+  for (const key of OBSERVABLE_KEYS) {
+    Object.defineProperty(observable, key, { value: () => observable, configurable: true, writable: true })
+  }
+  return observable as Observable<T>
+}
+
+/**
+ * Latest-value iteration: at most one value is held for a consumer that is
+ * busy, so a slow `for await` loop sees current state, not a backlog.
+ * Breaking out of the loop unsubscribes.
+ */
+export function toAsyncIterator<T>(source: ValueSource<T>): AsyncIterableIterator<T> {
+  let pending: { value: T } | null = { value: source.read() }
+  let waiting: ((result: IteratorResult<T>) => void) | null = null
+  let done = false
+
+  const finish = () => {
+    if (done) return
+    done = true
+    stopListening()
+    stopClose?.()
+    if (waiting) {
+      const resolve = waiting
+      waiting = null
+      resolve({ value: undefined, done: true })
+    }
+  }
+
+  const stopListening = source.listen(value => {
+    if (done) return
+    if (waiting) {
+      const resolve = waiting
+      waiting = null
+      resolve({ value, done: false })
+    } else {
+      pending = { value }
+    }
+  })
+  const stopClose = source.onClose?.(finish)
+
+  return {
+    next(): Promise<IteratorResult<T>> {
+      if (pending) {
+        const { value } = pending
+        pending = null
+        return Promise.resolve({ value, done: false })
+      }
+      if (done) return Promise.resolve({ value: undefined, done: true })
+      return new Promise(resolve => {
+        waiting = resolve
+      })
+    },
+    return(): Promise<IteratorResult<T>> {
+      pending = null
+      finish()
+      return Promise.resolve({ value: undefined, done: true })
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    },
+  }
+}
+
+/** The observable behind an interop source, or `source` itself when it is one already. */
+export function observableOf<T>(source: Subscribable<T> | Observable<T>): Subscribable<T> {
+  for (const key of OBSERVABLE_KEYS) {
+    const observe = (source as unknown as Record<PropertyKey, unknown>)[key]
+    if (typeof observe === "function") return (observe as () => Subscribable<T>).call(source)
+  }
+  return source as Subscribable<T>
+}
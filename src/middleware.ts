@@ -1,13 +1,15 @@
-import { DeepReadonly, Reducer, Compute, Effect, ExostatePlugin } from "./types.js"
+import { DeepReadonly, Reducer, Compute, Effect, ExostatePlugin, CommitMeta } from "./types.js"
 import { Store, StoreImpl } from "./store.js"
 
-export type Operation = "set" | "update" | "compute" | "batch" | "effect" | "patch"
+export type Operation = "set" | "update" | "compute" | "batch" | "effect" | "patch" | "reset"
 
 export interface MiddlewareContext<T> {
   store: Store<T>
   version: number
   snapshot: DeepReadonly<T>
   payload?: unknown
+  /** Metadata passed to the mutating call, e.g. `{ action: "cart/addItem" }`. */
+  meta?: CommitMeta
 }
 
 export interface MiddlewareAfterContext<T> extends MiddlewareContext<T> {
@@ -55,36 +57,36 @@ export function withMiddleware<T>(store: Store<T>, middlewares: ReadonlyArray<Mi
     snapshot() {
       return store.snapshot()
     },
-    set(next: T) {
+    set(next: T, meta?: CommitMeta) {
       const start = Date.now()
-      callBefore("set", { store, version: store.version, snapshot: store.snapshot(), payload: next })
-      const out = store.set(next)
+      callBefore("set", { store, version: store.version, snapshot: store.snapshot(), payload: next, meta })
+      const out = store.set(next, meta)
       const end = Date.now()
-      callAfter("set", { store, version: store.version, snapshot: store.snapshot(), payload: next, durationMs: end - start })
+      callAfter("set", { store, version: store.version, snapshot: store.snapshot(), payload: next, meta, durationMs: end - start })
       return out
     },
-    update<P>(reducer: Reducer<T, P>, payload: P) {
+    update<P>(reducer: Reducer<T, P>, payload: P, meta?: CommitMeta) {
       const start = Date.now()
-      callBefore("update", { store, version: store.version, snapshot: store.snapshot(), payload })
-      const out = store.update(reducer, payload)
+      callBefore("update", { store, version: store.version, snapshot: store.snapshot(), payload, meta })
+      const out = store.update(reducer, payload, meta)
       const end = Date.now()
-      callAfter("update", { store, version: store.version, snapshot: store.snapshot(), payload, durationMs: end - start })
+      callAfter("update", { store, version: store.version, snapshot: store.snapshot(), payload, meta, durationMs: end - start })
       return out
     },
-    compute(fn: Compute<T>) {
+    compute(fn: Compute<T>, meta?: CommitMeta) {
       const start = Date.now()
-      callBefore("compute", { store, version: store.version, snapshot: store.snapshot() })
-      const out = store.compute(fn)
+      callBefore("compute", { store, version: store.version, snapshot: store.snapshot(), meta })
+      const out = store.compute(fn, meta)
       const end = Date.now()
-      callAfter("compute", { store, version: store.version, snapshot: store.snapshot(), durationMs: end - start })
+      callAfter("compute", { store, version: store.version, snapshot: store.snapshot(), meta, durationMs: end - start })
       return out
     },
-    batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void) {
+    batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void, meta?: CommitMeta) {
       const start = Date.now()
-      callBefore("batch", { store, version: store.version, snapshot: store.snapshot() })
-      const out = store.batch(apply)
+      callBefore("batch", { store, version: store.version, snapshot: store.snapshot(), meta })
+      const out = store.batch(apply, meta)
       const end = Date.now()
-      callAfter("batch", { store, version: store.version, snapshot: store.snapshot(), durationMs: end - start })
+      callAfter("batch", { store, version: store.version, snapshot: store.snapshot(), meta, durationMs: end - start })
       return out
     },
     effect<P>(fn: Effect<T, P>, payload: P) {
@@ -101,12 +103,23 @@ export function withMiddleware<T>(store: Store<T>, middlewares: ReadonlyArray<Mi
       callAfter("effect", { store, version: store.version, snapshot: store.snapshot(), payload, durationMs: end - start })
       return res
     },
-    patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>)) {
+    patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>), meta?: CommitMeta) {
       const start = Date.now()
-      callBefore("patch", { store, version: store.version, snapshot: store.snapshot(), payload: partial })
-      const out = store.patch(partial)
+      callBefore("patch", { store, version: store.version, snapshot: store.snapshot(), payload: partial, meta })
+      const out = store.patch(partial, meta)
       const end = Date.now()
-      callAfter("patch", { store, version: store.version, snapshot: store.snapshot(), payload: partial, durationMs: end - start })
+      callAfter("patch", { store, version: store.version, snapshot: store.snapshot(), payload: partial, meta, durationMs: end - start })
+      return out
+    },
+    getInitialState() {
+      return store.getInitialState()
+    },
+    reset(meta?: CommitMeta) {
+      const start = Date.now()
+      callBefore("reset", { store, version: store.version, snapshot: store.snapshot(), meta })
+      const out = store.reset(meta)
+      const end = Date.now()
+      callAfter("reset", { store, version: store.version, snapshot: store.snapshot(), meta, durationMs: end - start })
       return out
     },
     use(plugin: ExostatePlugin<T>) {
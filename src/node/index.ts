@@ -1,7 +1,8 @@
 import { promises as fs } from "node:fs"
 import path from "node:path"
-import type { DeepReadonly } from "../types.js"
+import type { AsyncStorageLike, DeepReadonly } from "../types.js"
 import type { Store } from "../store.js"
+import { parseSchemaAsync } from "../schema.js"
 import type { PersistOptions, PersistController } from "../persist.js"
 
 export type { PersistOptions, PersistController } from "../persist.js"
@@ -34,7 +35,8 @@ export async function persistFs<T>(
   if (options?.loadInitial !== false) {
     try {
       const raw = await fs.readFile(filePath, "utf8")
-      const initial = decode(raw)
+      const decoded = decode(raw)
+      const initial = options?.schema ? await parseSchemaAsync(options.schema, decoded) : decoded
       suppress = true
       try { store.set(initial) }
       finally { suppress = false }
@@ -70,3 +72,30 @@ export async function persistFs<T>(
     }
   }
 }
+
+/**
+ * An `AsyncStorageLike` that keeps each key in its own JSON file under
+ * `directory` — for APIs that take a storage adapter, such as
+ * `persistQueryClient` in a CLI or an Electron main process. Characters that
+ * are unsafe in file names are replaced in the key.
+ */
+export function createFsStorage(directory: string): AsyncStorageLike {
+  const fileFor = (key: string) => path.join(directory, `${key.replace(/[^\w.-]/g, "_")}.json`)
+
+  return {
+    async getItem(key) {
+      try {
+        return await fs.readFile(fileFor(key), "utf8")
+      } catch {
+        return null
+      }
+    },
+    async setItem(key, value) {
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(fileFor(key), value, "utf8")
+    },
+    async removeItem(key) {
+      await fs.rm(fileFor(key), { force: true })
+    },
+  }
+}
@@ -0,0 +1,26 @@
+import { Streamable } from "./types.js"
+import { sourceOf, toAsyncIterator, toObservable } from "./interop.js"
+
+export { observableSymbol } from "./interop.js"
+
+/**
+ * Turns a store, a focused slice, a derived value or a combined view into an
+ * observable that RxJS `from()` accepts and that `for await` can read. Both
+ * emit the current value first, then each change, and complete when the
+ * source is destroyed.
+ *
+ * @example
+ * ```ts
+ * from(observe(cart)).pipe(map(c => c.items.length)).subscribe(renderBadge)
+ *
+ * for await (const state of observe(upload)) {
+ *   if (state.done) break
+ * }
+ * ```
+ */
+export function observe<T>(source: { read(): T }): Streamable<T> {
+  const values = sourceOf(source)
+  const streamable = toObservable(values) as Streamable<T>
+  streamable[Symbol.asyncIterator] = () => toAsyncIterator(values)
+  return streamable
+}
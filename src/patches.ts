@@ -0,0 +1,265 @@
+import { CommitMeta, PatchListener, PatchOperation, Unsubscribe } from "./types.js"
+import { Store } from "./store.js"
+import { produce } from "./draft.js"
+import { deepEqual } from "./equality.js"
+import { createError } from "./errors.js"
+import { isPlainObject } from "./path.js"
+
+export interface PatchSet {
+  patches: PatchOperation[]
+  inversePatches: PatchOperation[]
+}
+
+type Container = Record<string, unknown> | unknown[] | Map<unknown, unknown>
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return []
+  if (pointer[0] !== "/") throw createError("invalid_patch", `Invalid JSON Pointer "${pointer}"`)
+  return pointer.slice(1).split("/").map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+function diffInto(prev: unknown, next: unknown, path: string, out: PatchSet): void {
+  if (Object.is(prev, next)) return
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length)
+    for (let i = 0; i < common; i++) diffInto(prev[i], next[i], `${path}/${i}`, out)
+    for (let i = common; i < next.length; i++) {
+      out.patches.push({ op: "add", path: `${path}/${i}`, value: next[i] })
+      out.inversePatches.push({ op: "remove", path: `${path}/${i}` })
+    }
+    // Remove from the end so every emitted index is still valid when applied.
+    for (let i = prev.length - 1; i >= common; i--) {
+      out.patches.push({ op: "remove", path: `${path}/${i}` })
+      out.inversePatches.push({ op: "add", path: `${path}/${i}`, value: prev[i] })
+    }
+    return
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      const child = `${path}/${escapeSegment(key)}`
+      if (!Object.prototype.hasOwnProperty.call(next, key)) {
+        out.patches.push({ op: "remove", path: child })
+        out.inversePatches.push({ op: "add", path: child, value: prev[key] })
+      } else {
+        diffInto(prev[key], next[key], child, out)
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (Object.prototype.hasOwnProperty.call(prev, key)) continue
+      const child = `${path}/${escapeSegment(key)}`
+      out.patches.push({ op: "add", path: child, value: next[key] })
+      out.inversePatches.push({ op: "remove", path: child })
+    }
+    return
+  }
+
+  // Maps, Sets, class instances and primitives are replaced wholesale.
+  out.patches.push({ op: "replace", path, value: next })
+  out.inversePatches.push({ op: "replace", path, value: prev })
+}
+
+/**
+ * Computes the RFC 6902 change set between two states.
+ *
+ * Subtrees that are reference-equal are skipped without being walked, so the
+ * cost tracks the size of the change rather than the size of the state when
+ * updates preserve structural sharing (`patch`, `mutate`, hand-written spreads).
+ * Plain objects and arrays are diffed key by key; anything else is replaced.
+ */
+export function diffPatches(prev: unknown, next: unknown): PatchSet {
+  const out: PatchSet = { patches: [], inversePatches: [] }
+  diffInto(prev, next, "", out)
+  // Inverse operations undo the forward ones, so they must run back to front.
+  out.inversePatches.reverse()
+  return out
+}
+
+function getChild(container: Container, key: string): unknown {
+  if (container instanceof Map) return container.get(key)
+  if (Array.isArray(container)) return container[Number(key)]
+  return container[key]
+}
+
+function resolveParent(root: unknown, segments: string[], pointer: string): Container {
+  let node = root
+  for (const segment of segments) {
+    if (typeof node !== "object" || node === null) {
+      throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+    }
+    node = getChild(node as Container, segment)
+  }
+  if (typeof node !== "object" || node === null) {
+    throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+  }
+  return node as Container
+}
+
+function arrayIndex(list: unknown[], key: string, pointer: string, allowEnd: boolean): number {
+  if (key === "-" && allowEnd) return list.length
+  const index = /^(0|[1-9]\d*)$/.test(key) ? Number(key) : -1
+  const max = allowEnd ? list.length : list.length - 1
+  if (index < 0 || index > max) {
+    throw createError("invalid_patch", `Array index out of range at "${pointer}"`)
+  }
+  return index
+}
+
+function readPointer(root: unknown, pointer: string): unknown {
+  const segments = parsePointer(pointer)
+  if (segments.length === 0) return root
+  const key = segments.pop()!
+  return getChild(resolveParent(root, segments, pointer), key)
+}
+
+function insert(parent: Container, key: string, value: unknown, pointer: string): void {
+  if (parent instanceof Map) parent.set(key, value)
+  else if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, pointer, true), 0, value)
+  else parent[key] = value
+}
+
+function remove(parent: Container, key: string, pointer: string): void {
+  if (parent instanceof Map) {
+    if (!parent.delete(key)) throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+  } else if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, false), 1)
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+    }
+    delete parent[key]
+  }
+}
+
+function replace(parent: Container, key: string, value: unknown, pointer: string): void {
+  if (parent instanceof Map) {
+    if (!parent.has(key)) throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+    parent.set(key, value)
+  } else if (Array.isArray(parent)) {
+    parent[arrayIndex(parent, key, pointer, false)] = value
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw createError("invalid_patch", `Path "${pointer}" does not exist`)
+    }
+    parent[key] = value
+  }
+}
+
+function applyOperation(draft: unknown, operation: PatchOperation): void {
+  const segments = parsePointer(operation.path)
+  const key = segments.pop()!
+  const parent = resolveParent(draft, segments, operation.path)
+  switch (operation.op) {
+    case "add":
+      insert(parent, key, operation.value, operation.path)
+      return
+    case "remove":
+      remove(parent, key, operation.path)
+      return
+    case "replace":
+      replace(parent, key, operation.value, operation.path)
+      return
+    case "move": {
+      const value = readPointer(draft, operation.from)
+      const fromSegments = parsePointer(operation.from)
+      const fromKey = fromSegments.pop()!
+      remove(resolveParent(draft, fromSegments, operation.from), fromKey, operation.from)
+      insert(resolveParent(draft, segments, operation.path), key, value, operation.path)
+      return
+    }
+    case "copy":
+      insert(parent, key, readPointer(draft, operation.from), operation.path)
+      return
+    case "test":
+      if (!deepEqual(getChild(parent, key), operation.value)) {
+        throw createError("patch_test_failed", `Test failed at "${operation.path}"`, { operation })
+      }
+      return
+  }
+}
+
+/**
+ * Applies JSON Patch operations to an immutable value and returns the result.
+ * The input is never modified; untouched subtrees are shared with it.
+ *
+ * Throws a `SafeError` (`invalid_patch` or `patch_test_failed`) when an
+ * operation cannot be applied.
+ */
+export function applyPatch<T>(base: T, patches: ReadonlyArray<PatchOperation>): T {
+  let state = base
+  let pending: PatchOperation[] = []
+
+  const drain = () => {
+    if (pending.length === 0) return
+    const ops = pending
+    pending = []
+    state = produce(state, draft => {
+      for (const op of ops) applyOperation(draft, op)
+    })
+  }
+
+  for (const op of patches) {
+    if (op.path !== "") {
+      pending.push(op)
+      continue
+    }
+    // Root operations replace the state outright — there is no parent to draft.
+    drain()
+    if (op.op === "add" || op.op === "replace") state = op.value as T
+    else if (op.op === "copy" || op.op === "move") state = readPointer(state, op.from) as T
+    else if (op.op === "test") {
+      if (!deepEqual(state, op.value)) {
+        throw createError("patch_test_failed", `Test failed at ""`, { operation: op })
+      }
+    } else throw createError("invalid_patch", "Cannot remove the root of the state")
+  }
+  drain()
+  return state
+}
+
+/**
+ * Applies JSON Patch operations to a store through `set`, so plugins,
+ * middleware and subscribers see an ordinary write.
+ *
+ * @example
+ * ```ts
+ * subscribePatches(replica, p => socket.send(JSON.stringify(p)))
+ * socket.onmessage = e => applyPatches(mirror, JSON.parse(e.data))
+ * ```
+ */
+export function applyPatches<T>(store: Store<T>, patches: ReadonlyArray<PatchOperation>, meta?: CommitMeta): T {
+  return store.set(applyPatch(store.read(), patches), meta)
+}
+
+/**
+ * Calls `listener` with the JSON Patch change set of every commit to `store`,
+ * synchronously and regardless of `notify` mode. Commits that change nothing
+ * are skipped. Returns a function that stops listening.
+ *
+ * The listener runs as a plugin named `patches`, so it shows up in
+ * `store.plugins()` and a throw is reported like any plugin failure. Lives in
+ * the `exostate/patches` entry point: stores nobody diffs don't ship the diff.
+ *
+ * @example
+ * ```ts
+ * import { subscribePatches } from "exostate/patches"
+ *
+ * const stop = subscribePatches(store, (patches, inversePatches, meta) => {
+ *   socket.send(JSON.stringify(patches))
+ * })
+ * ```
+ */
+export function subscribePatches<T>(store: Store<T>, listener: PatchListener): Unsubscribe {
+  return store.use({
+    name: "patches",
+    onAfterUpdate(prev, next, meta) {
+      const { patches, inversePatches } = diffPatches(prev, next)
+      if (patches.length > 0) listener(patches, inversePatches, meta)
+    },
+  })
+}
@@ -0,0 +1,59 @@
+import { StatePath } from "./types.js"
+
+/** An object literal or `Object.create(null)` — not an array, Map, Date or class instance. */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false
+  const proto = Object.getPrototypeOf(value) as unknown
+  return proto === Object.prototype || proto === null
+}
+
+export function readKey(source: unknown, key: unknown): unknown {
+  if (source instanceof Map) return source.get(key)
+  if (typeof source !== "object" || source === null) return undefined
+  return (source as Record<PropertyKey, unknown>)[key as PropertyKey]
+}
+
+export function readPath(source: unknown, path: StatePath): unknown {
+  let value = source
+  for (const key of path) value = readKey(value, key)
+  return value
+}
+
+/** Sets `key` on `target` in place: a Map entry, an index or a property. */
+export function writeKey(target: object, key: unknown, value: unknown): void {
+  if (target instanceof Map) target.set(key, value)
+  else (target as Record<PropertyKey, unknown>)[key as PropertyKey] = value
+}
+
+function copyWithKey(source: unknown, key: unknown, value: unknown): unknown {
+  const copy = source instanceof Map ? new Map(source as Map<unknown, unknown>)
+    : Array.isArray(source) ? source.slice()
+    : { ...(typeof source === "object" && source !== null ? source : {}) }
+  writeKey(copy, key, value)
+  return copy
+}
+
+/**
+ * Returns a copy of `source` with `value` at `path`, copying only the
+ * containers along the path. Missing containers are created as plain objects.
+ * Returns `source` itself when the value is already there.
+ */
+export function writePath(source: unknown, path: StatePath, value: unknown): unknown {
+  if (path.length === 0) return value
+  const [key, ...rest] = path
+  const child = readKey(source, key)
+  const next = writePath(child, rest, value)
+  if (Object.is(child, next) && hasKey(source, key)) return source
+  return copyWithKey(source, key, next)
+}
+
+function hasKey(source: unknown, key: unknown): boolean {
+  if (source instanceof Map) return source.has(key)
+  if (typeof source !== "object" || source === null) return false
+  return Object.prototype.hasOwnProperty.call(source, key as PropertyKey)
+}
+
+/** Accepts `["settings", "theme"]` or the dotted shorthand `"settings.theme"`. */
+export function toPath(path: StatePath | string): StatePath {
+  return typeof path === "string" ? (path === "" ? [] : path.split(".")) : path
+}
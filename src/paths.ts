@@ -0,0 +1,4 @@
+// The `exostate/paths` entry point: stores and subscriptions scoped to a
+// path inside a store's state.
+export * from "./focus.js"
+export * from "./subscribe-path.js"
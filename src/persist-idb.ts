@@ -1,5 +1,6 @@
-import { DeepReadonly } from "./types.js"
+import { AsyncStorageLike, DeepReadonly } from "./types.js"
 import { Store } from "./store.js"
+import { SchemaLike, parseSchemaAsync } from "./schema.js"
 import type { PersistController } from "./persist.js"
 
 export interface PersistIdbOptions<T> {
@@ -10,6 +11,8 @@ export interface PersistIdbOptions<T> {
   /** Serialize before writing. Defaults to storing the structured value as-is. */
   encode?: (snapshot: DeepReadonly<T>) => unknown
   decode?: (raw: unknown) => T
+  /** Checks the decoded state before it is loaded; stored state that fails is ignored. */
+  schema?: SchemaLike<T>
   /** Coalesce writes over this many ms. Default `50`. Use `0` to write eagerly. */
   writeDebounceMs?: number
 }
@@ -75,7 +78,8 @@ export async function persistIndexedDB<T>(
       const tx = db.transaction(storeName, "readonly")
       const raw: unknown = await requestToPromise(tx.objectStore(storeName).get(key) as IDBRequest<unknown>)
       if (raw !== undefined) {
-        const initial = decode(raw)
+        const decoded = decode(raw)
+        const initial = options?.schema ? await parseSchemaAsync(options.schema, decoded) : decoded
         suppress = true
         try { store.set(initial) }
         finally { suppress = false }
@@ -129,3 +133,41 @@ export async function persistIndexedDB<T>(
     }
   }
 }
+
+export interface IndexedDBStorageOptions {
+  dbName?: string
+  storeName?: string
+}
+
+/**
+ * An `AsyncStorageLike` over one IndexedDB object store, for APIs that take
+ * a storage adapter — such as `persistQueryClient`. The database opens on
+ * first use.
+ */
+export function createIndexedDBStorage(options?: IndexedDBStorageOptions): AsyncStorageLike {
+  const dbName = options?.dbName ?? "exostate"
+  const storeName = options?.storeName ?? "state"
+  let opening: Promise<IDBDatabase> | null = null
+
+  const objectStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    if (typeof indexedDB === "undefined") {
+      throw new Error("createIndexedDBStorage requires an environment with IndexedDB")
+    }
+    opening ??= openDatabase(dbName, storeName)
+    const db = await opening
+    return db.transaction(storeName, mode).objectStore(storeName)
+  }
+
+  return {
+    async getItem(key) {
+      const raw: unknown = await requestToPromise((await objectStore("readonly")).get(key) as IDBRequest<unknown>)
+      return typeof raw === "string" ? raw : null
+    },
+    async setItem(key, value) {
+      await requestToPromise((await objectStore("readwrite")).put(value, key))
+    },
+    async removeItem(key) {
+      await requestToPromise((await objectStore("readwrite")).delete(key))
+    },
+  }
+}
@@ -0,0 +1,136 @@
+import { AsyncStorageLike } from "./types.js"
+import type { DehydrateOptions, DehydratedState, QueryClient } from "./query.js"
+import type { PersistController } from "./persist.js"
+
+export interface PersistQueryClientOptions {
+  /** Where the cache is written: `localStorage`, `createIndexedDBStorage()`, `createFsStorage()` … */
+  storage: AsyncStorageLike
+  /** Default `exostate:query-client`. */
+  key?: string
+  /**
+   * A stored cache older than this many ms is discarded on restore, and so is
+   * any query in it whose data is older. Default 24 hours.
+   */
+  maxAge?: number
+  /** Change it — for example on each deploy — to discard caches written by other versions. Default `""`. */
+  buster?: string
+  /** Writes at most once per this many ms. Default `1000`. */
+  throttleMs?: number
+  /** Chooses which queries are written. */
+  dehydrateOptions?: DehydrateOptions
+}
+
+export interface PersistQueryClientController extends PersistController {
+  /** `true` when a stored cache was restored into the client. */
+  readonly restored: boolean
+  /** Writes the cache now rather than at the end of the throttle window. */
+  flush(): Promise<void>
+}
+
+/** The envelope written to storage. */
+export interface PersistedClient {
+  timestamp: number
+  buster: string
+  clientState: DehydratedState
+}
+
+/**
+ * Restores a `QueryClient` from storage, then keeps the stored copy up to
+ * date. Only successful queries are written — the same payload as
+ * `client.dehydrate()` — so a cold start paints the last known data at once
+ * and revalidates it according to `staleTime`.
+ *
+ * A stored cache older than `maxAge`, written under a different `buster`, or
+ * unreadable is removed rather than restored; so is any single query whose
+ * data is older than `maxAge`. A restored query never replaces data the client
+ * fetched while the storage was being read. Ages are measured with the
+ * client's clock (`QueryClientOptions.now`).
+ *
+ * @example
+ * ```ts
+ * const client = new QueryClient()
+ * await persistQueryClient(client, {
+ *   storage: localStorage,
+ *   maxAge: 24 * 60 * 60_000,
+ *   buster: APP_VERSION,
+ * })
+ * ```
+ */
+export async function persistQueryClient(
+  client: QueryClient,
+  options: PersistQueryClientOptions
+): Promise<PersistQueryClientController> {
+  const { storage } = options
+  const key = options.key ?? "exostate:query-client"
+  const maxAge = options.maxAge ?? 24 * 60 * 60_000
+  const buster = options.buster ?? ""
+  const throttleMs = options.throttleMs ?? 1000
+  let restored = false
+
+  try {
+    const raw = await storage.getItem(key)
+    if (raw !== null) {
+      const persisted = JSON.parse(raw) as Partial<PersistedClient>
+      const now = client.now()
+      const expired = typeof persisted.timestamp !== "number" || now - persisted.timestamp > maxAge
+      if (expired || persisted.buster !== buster || !Array.isArray(persisted.clientState?.queries)) {
+        await storage.removeItem(key)
+      } else {
+        const queries = persisted.clientState.queries.filter(query => {
+          if (now - query.dataUpdatedAt > maxAge) return false
+          const current = client.getQueryState(query.queryKey)
+          return !current || current.dataUpdatedAt < query.dataUpdatedAt
+        })
+        client.hydrate({ queries })
+        restored = true
+      }
+    }
+  } catch {
+    try { await storage.removeItem(key) } catch { void 0 }
+  }
+
+  let detached = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let writing: Promise<void> = Promise.resolve()
+
+  // Writes are chained so an async storage never sees two `setItem` calls race.
+  const write = (): Promise<void> => {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+    const persisted: PersistedClient = {
+      timestamp: client.now(),
+      buster,
+      clientState: client.dehydrate(options.dehydrateOptions),
+    }
+    writing = writing
+      .then(() => storage.setItem(key, JSON.stringify(persisted)))
+      .catch(() => void 0)
+    return writing
+  }
+
+  const unsubscribe = client.subscribe(() => {
+    if (detached || timer !== null) return
+    if (throttleMs <= 0) {
+      void write()
+      return
+    }
+    timer = setTimeout(() => {
+      timer = null
+      void write()
+    }, throttleMs)
+  })
+
+  return {
+    restored,
+    flush: () => write(),
+    detach: () => {
+      if (detached) return
+      detached = true
+      unsubscribe()
+      // Write what the throttle was still holding back, as `persistIndexedDB` does.
+      if (timer !== null) void write()
+    },
+  }
+}
@@ -1,10 +1,18 @@
 import { DeepReadonly, StorageLike } from "./types.js"
 import { Store } from "./store.js"
+import { SchemaLike } from "./schema.js"
 
 export interface PersistOptions<T> {
   loadInitial?: boolean
   encode?: (snapshot: DeepReadonly<T>) => string
   decode?: (raw: string) => T
+  /**
+   * Checks the decoded state before it is loaded; stored state that fails is
+   * ignored. An asynchronous Standard Schema validator is awaited: the state
+   * loads once it passes, unless the store was written or the persister
+   * detached in the meantime.
+   */
+  schema?: SchemaLike<T>
 }
 
 export interface PersistController {
@@ -26,20 +34,45 @@ export function persistLocal<T>(
 ): PersistController {
   const encode = options?.encode ?? ((s: DeepReadonly<T>) => JSON.stringify(s))
   const decode = options?.decode ?? ((raw: string) => JSON.parse(raw) as T)
+  const schema = options?.schema
   let detach: (() => void) | null = null
   let suppress = false
 
+  const load = (state: T) => {
+    suppress = true
+    // try/finally: if a plugin or listener throws while applying the loaded
+    // state, `suppress` must still be cleared or nothing is ever persisted.
+    try { store.set(state) }
+    finally { suppress = false }
+  }
+
   if (options?.loadInitial !== false) {
     const raw = storage.getItem(key)
     if (raw != null) {
       try {
-        const initial = decode(raw)
-        suppress = true
-        // try/finally: if a plugin or listener throws while applying the loaded
-        // state, `suppress` must still be cleared or nothing is ever persisted.
-        try { store.set(initial) }
-        finally { suppress = false }
-      } catch { void 0 }
+        const decoded = decode(raw)
+        if (!schema) {
+          load(decoded)
+        } else if (!("~standard" in schema)) {
+          load(schema.parse(decoded))
+        } else {
+          // Run directly rather than through `fromStandard`: failures are
+          // dropped anyway, so their issue lists would only add bundle size.
+          const result = schema["~standard"].validate(decoded)
+          if (!(result instanceof Promise)) {
+            if (!result.issues) load(result.value)
+          } else {
+            // A write made while the validator ran is newer than the stored
+            // state, so the stored state is dropped instead.
+            const version = store.version
+            void result.then(checked => {
+              if (!checked.issues && detach && store.version === version) load(checked.value)
+            }, () => {})
+          }
+        }
+      } catch {
+        // Bad stored state is dropped.
+      }
     }
   }
 
@@ -1,5 +1,7 @@
-import { DeepReadonly, ExostatePlugin } from "./types.js"
+import { CommitMeta, DeepReadonly, ExostatePlugin, StatePath } from "./types.js"
 import { Store } from "./store.js"
+import { SchemaLike, ValidationIssue, issuesOf, toSchema } from "./schema.js"
+import { SafeError, createError } from "./errors.js"
 
 export type { ExostatePlugin } from "./types.js"
 
@@ -59,18 +61,19 @@ export interface LoggerOptions {
   console?: Pick<Console, "log" | "group" | "groupCollapsed" | "groupEnd">
 }
 
-/** Logs every committed state change. */
+/** Logs every committed state change, headed by its action label when given. */
 export function logger<T>(options?: LoggerOptions): ExostatePlugin<T> {
   const name = options?.name ?? "ExostateLogger"
   return {
     name,
-    onAfterUpdate(prev, next) {
+    onAfterUpdate(prev, next, meta) {
       const sink = options?.console ?? globalThis.console
       if (!sink) return
       const group = options?.collapsed ? sink.groupCollapsed : sink.group
-      group.call(sink, `[${name}] state updated`)
+      group.call(sink, `[${name}] ${meta?.action ?? "state updated"}`)
       sink.log("prev:", prev)
       sink.log("next:", next)
+      if (meta) sink.log("meta:", meta)
       sink.groupEnd()
     }
   }
@@ -104,3 +107,248 @@ export function freeze<T>(): ExostatePlugin<T> {
     }
   }
 }
+
+/** An in-place change to data that had already been committed or delivered. */
+export interface StateMutation {
+  /** Where the change was found, from the root of the checked value. */
+  path: StatePath
+  /** The value recorded at `path` when the data was committed. */
+  prev: unknown
+  /** What is there now. */
+  next: unknown
+  /** `state` for committed state, `selector` for a value handed to a subscriber. */
+  source: "state" | "selector"
+  /** The subscriber's `name` option, for `selector` mutations. */
+  listener?: string
+  /** Stack at detection — on a commit, that of the write that followed the mutation. */
+  stack?: string
+}
+
+export interface DetectMutationsOptions {
+  /** Also check every `interval` ms instead of only on the next commit. */
+  interval?: number
+  /** Also fingerprint values handed to subscribers and check them. Default `false`. */
+  checkSelectors?: boolean
+  /** Receives each mutation found. Defaults to `console.error`. */
+  onMutation?: (mutation: StateMutation) => void
+}
+
+/** Shape of a value at the moment it was recorded. */
+interface Fingerprint {
+  ref: unknown
+  /** Own keys (objects, arrays incl. `length`) or entries (Maps) → child prints. */
+  children?: Map<unknown, Fingerprint>
+  /** Members of a Set. */
+  members?: Set<unknown>
+  /** `getTime()` of a Date. */
+  time?: number
+}
+
+function fingerprint(value: unknown, reuse: Fingerprint | undefined, seen: Set<object>): Fingerprint {
+  // A subtree still referenced from the last clean check can't have changed.
+  if (reuse && Object.is(reuse.ref, value)) return reuse
+  const print: Fingerprint = { ref: value }
+  if (typeof value !== "object" || value === null || seen.has(value)) return print
+  seen.add(value)
+  if (value instanceof Date) {
+    print.time = value.getTime()
+  } else if (value instanceof Set) {
+    print.members = new Set(value)
+  } else if (value instanceof Map) {
+    print.children = new Map()
+    for (const [key, child] of value) {
+      print.children.set(key, fingerprint(child, reuse?.children?.get(key), seen))
+    }
+  } else {
+    print.children = new Map()
+    const record = value as Record<string, unknown>
+    for (const key of Object.keys(record)) {
+      print.children.set(key, fingerprint(record[key], reuse?.children?.get(key), seen))
+    }
+    if (Array.isArray(value)) print.children.set("length", { ref: value.length })
+  }
+  return print
+}
+
+function entriesOf(value: object): Map<unknown, unknown> {
+  if (value instanceof Map) return value
+  const entries = new Map<unknown, unknown>(Object.entries(value))
+  if (Array.isArray(value)) entries.set("length", value.length)
+  return entries
+}
+
+/** Collects every place `value` no longer matches `print`. */
+function compare(
+  print: Fingerprint,
+  value: unknown,
+  path: unknown[],
+  found: Array<Pick<StateMutation, "path" | "prev" | "next">>,
+  seen: Set<object>
+): void {
+  if (typeof value !== "object" || value === null || seen.has(value)) return
+  seen.add(value)
+  if (print.time !== undefined) {
+    const time = (value as Date).getTime()
+    if (time !== print.time) found.push({ path, prev: new Date(print.time), next: value })
+    return
+  }
+  if (print.members) {
+    const now = value as Set<unknown>
+    for (const member of now) {
+      if (!print.members.has(member)) found.push({ path, prev: undefined, next: member })
+    }
+    for (const member of print.members) {
+      if (!now.has(member)) found.push({ path, prev: member, next: undefined })
+    }
+    return
+  }
+  if (!print.children) return
+  const now = entriesOf(value)
+  for (const [key, child] of print.children) {
+    const current = now.get(key)
+    if (!Object.is(current, child.ref)) found.push({ path: [...path, key], prev: child.ref, next: current })
+    else compare(child, current, [...path, key], found, seen)
+  }
+  for (const [key, current] of now) {
+    if (!print.children.has(key)) found.push({ path: [...path, key], prev: undefined, next: current })
+  }
+}
+
+function formatPath(path: StatePath): string {
+  return path.length === 0 ? "(root)" : path.map(String).join(".")
+}
+
+/**
+ * Development check for in-place mutation of committed state — the
+ * `prev.items.push(x)` in a reducer that leaves the UI stale. Fingerprints
+ * each committed state (reusing the prints of unchanged subtrees) and, on the
+ * next commit or every `interval` ms, reports the exact path of anything that
+ * changed underneath it. Cheaper than `freeze()` on big trees and independent
+ * of strict mode; reports don't stop the commit.
+ *
+ * With `checkSelectors`, values handed to subscribers are fingerprinted too,
+ * catching a subscriber that sorts or edits what it was given.
+ */
+export function detectMutations<T>(options?: DetectMutationsOptions): ExostatePlugin<T> {
+  const report = options?.onMutation ?? ((mutation: StateMutation) => {
+    globalThis.console?.error(
+      `[exostate] ${mutation.source === "selector" ? "Selected value" : "State"} mutated in place at ` +
+        `"${formatPath(mutation.path)}"`,
+      mutation
+    )
+  })
+  let committed: Fingerprint | undefined
+  let selected = new Map<object, { print: Fingerprint; listener?: string }>()
+
+  const check = (value: unknown, print: Fingerprint, source: StateMutation["source"], listener?: string) => {
+    const found: Array<Pick<StateMutation, "path" | "prev" | "next">> = []
+    compare(print, value, [], found, new Set())
+    if (found.length === 0) return true
+    const stack = new Error().stack
+    for (const mutation of found) {
+      report({ ...mutation, source, stack, ...(listener !== undefined ? { listener } : {}) })
+    }
+    return false
+  }
+
+  /** Checks `state` (the last committed one) and any delivered selector values. */
+  const verify = (state: unknown) => {
+    if (committed && !check(state, committed, "state")) {
+      // Re-record from scratch so the same mutation is reported only once.
+      committed = fingerprint(state, undefined, new Set())
+    }
+    for (const [value, { print, listener }] of selected) {
+      if (!check(value, print, "selector", listener)) selected.set(value, { print: fingerprint(value, undefined, new Set()), listener })
+    }
+  }
+
+  return {
+    name: "ExostateDetectMutations",
+    onInit(store) {
+      committed = fingerprint(store.read(), undefined, new Set())
+      if (!options?.interval) return
+      const timer = setInterval(() => verify(store.read()), options.interval)
+      return () => clearInterval(timer)
+    },
+    onBeforeUpdate(prev) {
+      verify(prev)
+      // Values handed out before this commit are checked once, then released.
+      selected = new Map()
+    },
+    onAfterUpdate(_prev, next) {
+      committed = fingerprint(next, committed, new Set())
+    },
+    onNotify(value, listener) {
+      if (!options?.checkSelectors || typeof value !== "object" || value === null) return
+      selected.set(value, { print: fingerprint(value, undefined, new Set()), listener })
+    },
+  }
+}
+
+/** `details` of the `validation_failed` SafeError `validate()` reports. */
+export interface ValidationDetails {
+  /** Each problem the schema found, with its path. */
+  issues: ReadonlyArray<ValidationIssue>
+  /** Meta of the write that produced the invalid state. */
+  meta?: CommitMeta
+  /** What the schema threw. */
+  cause: unknown
+}
+
+export interface ValidateOptions {
+  /**
+   * `reject` (default) keeps the current state and reports the error through
+   * the store's error reporter and policy. `coerce` commits what the schema
+   * returns, so zod defaults and transforms repair the state, and rejects
+   * when parsing fails. `warn` commits as is and only reports.
+   */
+  mode?: "reject" | "warn" | "coerce"
+  /** Receives `warn` mode failures. Defaults to `console.warn`. */
+  onWarning?: (error: SafeError) => void
+}
+
+function validationError(cause: unknown, meta: CommitMeta | undefined): SafeError {
+  const issues = issuesOf(cause)
+  const details: ValidationDetails = { issues, ...(meta !== undefined ? { meta } : {}), cause }
+  const where = issues[0]!.path.length > 0 ? ` at "${formatPath(issues[0]!.path)}"` : ""
+  return createError("validation_failed", `Invalid state${where}: ${issues[0]!.message}`, details)
+}
+
+/**
+ * Checks every next state against `schema` before it is committed, so a bad
+ * reducer or a bad `rehydrate` payload never reaches the store. Takes a
+ * `Schema` or any Standard Schema validator that answers synchronously.
+ * Parsing runs on every commit; attach it in development or for stores fed
+ * from outside.
+ *
+ * @example
+ * ```ts
+ * const store = createStore(initial, {
+ *   plugins: [validate(fromZod(Settings), { mode: "coerce" })],
+ * })
+ * ```
+ */
+export function validate<T>(schema: SchemaLike<T>, options?: ValidateOptions): ExostatePlugin<T> {
+  const parser = toSchema(schema)
+  const mode = options?.mode ?? "reject"
+  const warn = options?.onWarning ?? ((error: SafeError) => {
+    globalThis.console?.warn(`[exostate] ${error.message}`, error.details)
+  })
+  return {
+    name: "ExostateValidate",
+    onBeforeUpdate(_prev, next, meta) {
+      let parsed: T
+      try {
+        parsed = parser.parse(next)
+      } catch (err) {
+        const error = validationError(err, meta)
+        if (mode === "warn") {
+          warn(error)
+          return
+        }
+        throw error
+      }
+      if (mode === "coerce") return parsed
+    },
+  }
+}
@@ -1,12 +1,57 @@
 import { Store, createStore } from "./store.js"
-import { Unsubscribe } from "./types.js"
-import { SafeError, toSafeError } from "./errors.js"
+import { AsyncStorageLike, Unsubscribe } from "./types.js"
+import { SafeError, createError, toSafeError } from "./errors.js"
+import { replaceEqualDeep } from "./equality.js"
 
 export type QueryKey = ReadonlyArray<unknown>
 
 export type QueryStatus = "idle" | "loading" | "success" | "error"
 export type FetchStatus = "idle" | "fetching" | "paused"
 
+/**
+ * When a query may hit the network:
+ * - `online` (default): only while online. Fetches and retries started
+ *   offline pause until the connection returns.
+ * - `always`: regardless of connectivity, for queries that never touch the
+ *   network or that must fail fast.
+ * - `offlineFirst`: the first attempt always runs, so a service worker or
+ *   HTTP cache can answer it; retries pause while offline.
+ */
+export type NetworkMode = "online" | "always" | "offlineFirst"
+
+/** Tells queries whether the network is up, and when that changes. */
+export interface OnlineManager {
+  isOnline(): boolean
+  subscribe(listener: (online: boolean) => void): Unsubscribe
+}
+
+/**
+ * The default `OnlineManager`: reads `navigator.onLine` and listens for the
+ * window's `online` / `offline` events. Outside the browser it always reports
+ * online.
+ */
+export function createOnlineManager(): OnlineManager {
+  const target = globalThis as unknown as {
+    navigator?: { onLine?: boolean }
+    addEventListener?: (type: string, fn: () => void) => void
+    removeEventListener?: (type: string, fn: () => void) => void
+  }
+  return {
+    isOnline: () => target.navigator?.onLine ?? true,
+    subscribe(listener) {
+      if (typeof target.addEventListener !== "function") return () => {}
+      const online = () => listener(true)
+      const offline = () => listener(false)
+      target.addEventListener("online", online)
+      target.addEventListener("offline", offline)
+      return () => {
+        target.removeEventListener?.("online", online)
+        target.removeEventListener?.("offline", offline)
+      }
+    },
+  }
+}
+
 export interface QueryState<TData> {
   /** Cached data, if this query has ever resolved. */
   data: TData | undefined
@@ -14,6 +59,8 @@ export interface QueryState<TData> {
   status: QueryStatus
   /** Whether a request is in flight right now — independent of `status`. */
   fetchStatus: FetchStatus
+  /** `true` while a fetch waits for the network to come back. */
+  isPaused: boolean
   /** `true` while loading with no cached data to show. */
   isLoading: boolean
   /** `true` while refetching with cached data already on screen. */
@@ -48,6 +95,8 @@ export interface QueryOptions<TData> {
   refetchOnWindowFocus?: boolean
   /** Refetch when the network comes back. Default `true`. */
   refetchOnReconnect?: boolean
+  /** When fetches may run, given connectivity. Default `online`. */
+  networkMode?: NetworkMode
   /** Poll on an interval, in ms. Default `0` (off). */
   refetchInterval?: number
   /** Skip fetching entirely while `false`. Default `true`. */
@@ -56,6 +105,12 @@ export interface QueryOptions<TData> {
   initialData?: TData | (() => TData)
   /** Shown while loading, but never written to the cache. */
   placeholderData?: TData | (() => TData)
+  /**
+   * Keeps the references of unchanged parts of the data when new data arrives,
+   * so an identical response doesn't change identity at all. Pass a function
+   * to merge old and new data yourself. Default `true`.
+   */
+  structuralSharing?: boolean | ((oldData: TData | undefined, newData: TData) => TData)
   /** Called on every successful resolution. */
   onSuccess?: (data: TData) => void
   /** Called when a fetch ultimately fails. */
@@ -67,6 +122,7 @@ interface ResolvedOptions<TData> extends QueryOptions<TData> {
   gcTime: number
   refetchOnWindowFocus: boolean
   refetchOnReconnect: boolean
+  networkMode: NetworkMode
   refetchInterval: number
   enabled: boolean
 }
@@ -98,6 +154,7 @@ function initialState<TData>(): QueryState<TData> {
     error: undefined,
     status: "idle",
     fetchStatus: "idle",
+    isPaused: false,
     isLoading: false,
     isFetching: false,
     isSuccess: false,
@@ -109,6 +166,15 @@ function initialState<TData>(): QueryState<TData> {
   }
 }
 
+/** `state`, showing `placeholderData` while there is no data yet. */
+function withPlaceholder<TData>(state: QueryState<TData>, options: QueryOptions<TData>): QueryState<TData> {
+  if (state.data !== undefined || options.placeholderData === undefined) return state
+  const placeholder = typeof options.placeholderData === "function"
+    ? (options.placeholderData as () => TData)()
+    : options.placeholderData
+  return { ...state, data: placeholder }
+}
+
 /** True when `filter` is a prefix of `key` — the basis of partial invalidation. */
 function keyMatchesPrefix(key: QueryKey, filter: QueryKey): boolean {
   if (filter.length > key.length) return false
@@ -139,7 +205,8 @@ class QueryEntry<TData> {
     hash: string,
     options: ResolvedOptions<TData>,
     private readonly onDispose: (hash: string) => void,
-    private readonly now: () => number
+    private readonly now: () => number,
+    private readonly network: OnlineManager
   ) {
     this.key = key
     this.hash = hash
@@ -217,10 +284,16 @@ class QueryEntry<TData> {
     return this.observers.size
   }
 
-  setData(data: TData, updatedAt?: number) {
+  /** Stores new data, sharing unchanged parts with the old; returns what was stored. */
+  setData(data: TData, updatedAt?: number): TData {
     const at = updatedAt ?? this.now()
+    const previous = this.store.read().data
+    const sharing = this.options.structuralSharing ?? true
+    const next = typeof sharing === "function"
+      ? sharing(previous, data)
+      : sharing && previous !== undefined ? replaceEqualDeep(previous, data) : data
     this.store.patch({
-      data,
+      data: next,
       error: undefined,
       status: "success",
       isSuccess: true,
@@ -231,6 +304,7 @@ class QueryEntry<TData> {
       failureCount: 0,
     })
     this.scheduleStaleTransition()
+    return next
   }
 
   /**
@@ -257,13 +331,25 @@ class QueryEntry<TData> {
       isLoading: !hasData,
     })
 
+    const { networkMode } = this.options
     const attemptFetch = async (attempt: number): Promise<TData> => {
       try {
+        const mustWait = networkMode === "online" || (networkMode === "offlineFirst" && attempt > 0)
+        // Only await when offline, so an online fetch calls queryFn synchronously.
+        if (mustWait && !this.network.isOnline()) {
+          await this.whenOnline(controller.signal)
+        }
         const data = await this.queryFn!({ queryKey: this.key, signal: controller.signal })
         if (controller.signal.aborted) throw new Error("aborted")
         return data
       } catch (raw) {
         if (controller.signal.aborted) throw raw
+        // Failing while offline says nothing about the server: wait for the
+        // connection and try again without spending a retry.
+        if (networkMode !== "always" && !this.network.isOnline()) {
+          await this.whenOnline(controller.signal)
+          return attemptFetch(attempt)
+        }
         const error = toSafeError(raw)
         if (this.shouldRetry(attempt, error)) {
           this.store.patch({ failureCount: attempt + 1 })
@@ -278,15 +364,15 @@ class QueryEntry<TData> {
     const run = attemptFetch(0)
       .then((data) => {
         if (controller.signal.aborted || this.disposed) return data
-        this.setData(data)
-        this.store.patch({ fetchStatus: "idle", isFetching: false })
-        this.options.onSuccess?.(data)
-        return data
+        const stored = this.setData(data)
+        this.store.patch({ fetchStatus: "idle", isFetching: false, isPaused: false })
+        this.options.onSuccess?.(stored)
+        return stored
       })
       .catch((raw: unknown) => {
         if (controller.signal.aborted || this.disposed) {
           // A cancelled fetch must not clobber good cached data with an error.
-          this.store.patch({ fetchStatus: "idle", isFetching: false, isLoading: false })
+          this.store.patch({ fetchStatus: "idle", isFetching: false, isPaused: false, isLoading: false })
           throw toSafeError(raw)
         }
         const error = toSafeError(raw)
@@ -294,6 +380,7 @@ class QueryEntry<TData> {
           error,
           status: "error",
           fetchStatus: "idle",
+          isPaused: false,
           isError: true,
           isFetching: false,
           isLoading: false,
@@ -312,6 +399,33 @@ class QueryEntry<TData> {
     return run
   }
 
+  /**
+   * Resolves once the network is up, showing the fetch as `paused` until
+   * then. Rejects if `signal` aborts first.
+   */
+  private whenOnline(signal: AbortSignal): Promise<void> {
+    if (this.network.isOnline()) return Promise.resolve()
+    this.store.patch({ fetchStatus: "paused", isFetching: false, isPaused: true })
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        stop()
+        signal.removeEventListener("abort", abort)
+      }
+      const stop = this.network.subscribe(online => {
+        if (!online) return
+        done()
+        if (signal.aborted) return
+        this.store.patch({ fetchStatus: "fetching", isFetching: true, isPaused: false })
+        resolve()
+      })
+      const abort = () => {
+        done()
+        reject(new Error("aborted"))
+      }
+      signal.addEventListener("abort", abort, { once: true })
+    })
+  }
+
   private shouldRetry(attempt: number, error: SafeError): boolean {
     const retry = this.options.retry
     if (retry === undefined) return attempt < 3
@@ -377,8 +491,8 @@ class QueryEntry<TData> {
       this.controller = null
     }
     this.inFlight = null
-    if (this.store.read().isFetching) {
-      this.store.patch({ fetchStatus: "idle", isFetching: false, isLoading: false })
+    if (this.store.read().fetchStatus !== "idle") {
+      this.store.patch({ fetchStatus: "idle", isFetching: false, isPaused: false, isLoading: false })
     }
   }
 
@@ -413,10 +527,19 @@ export interface DehydratedState {
   queries: DehydratedQuery[]
 }
 
+export interface DehydrateOptions {
+  /** Return `false` to leave a query out. Every successful query is included by default. */
+  shouldDehydrateQuery?: (query: DehydratedQuery) => boolean
+}
+
 export interface QueryClientOptions {
   defaultOptions?: QueryOptions<unknown>
   /** Injectable clock, for deterministic tests. */
   now?: () => number
+  /** Source of connectivity for `networkMode` and `refetchOnReconnect`. Default `createOnlineManager()`. */
+  onlineManager?: OnlineManager
+  /** Tracks mutations made with this client. Default a `MutationCache` without storage. */
+  mutationCache?: MutationCache
 }
 
 export interface QueryObserver<TData> {
@@ -451,13 +574,22 @@ export interface QueryObserver<TData> {
 export class QueryClient {
   private entries = new Map<string, QueryEntry<unknown>>()
   private readonly defaults: QueryOptions<unknown>
-  private readonly now: () => number
+  /** The clock the client stamps and ages queries with: `options.now`, or `Date.now`. */
+  readonly now: () => number
+  private readonly network: OnlineManager
+  private readonly mutationCache: MutationCache
+  private mutationDefaults = new Map<string, MutationDefaults>()
   private focusUnsub: Unsubscribe | null = null
   private onlineUnsub: Unsubscribe | null = null
+  private mutationUnsub: Unsubscribe | null = null
+  private cacheListeners = new Set<() => void>()
 
   constructor(options?: QueryClientOptions) {
     this.defaults = options?.defaultOptions ?? {}
     this.now = options?.now ?? (() => Date.now())
+    this.network = options?.onlineManager ?? createOnlineManager()
+    this.mutationCache = options?.mutationCache ?? new MutationCache()
+    this.mutationUnsub = this.mutationCache.mount(this.network, key => this.getMutationDefaults(key))
     this.bindBrowserEvents()
   }
 
@@ -469,6 +601,7 @@ export class QueryClient {
       gcTime: merged.gcTime ?? 5 * 60_000,
       refetchOnWindowFocus: merged.refetchOnWindowFocus ?? true,
       refetchOnReconnect: merged.refetchOnReconnect ?? true,
+      networkMode: merged.networkMode ?? "online",
       refetchInterval: merged.refetchInterval ?? 0,
       enabled: merged.enabled ?? true,
     }
@@ -481,11 +614,27 @@ export class QueryClient {
     const hash = hashQueryKey(key)
     const existing = this.entries.get(hash)
     if (existing) return existing as unknown as QueryEntry<TData>
-    const entry = new QueryEntry<TData>(key, hash, options, (h) => { this.entries.delete(h) }, this.now)
+    const onDispose = (h: string) => {
+      this.entries.delete(h)
+      this.notifyCache()
+    }
+    const entry = new QueryEntry<TData>(key, hash, options, onDispose, this.now, this.network)
     this.entries.set(hash, entry as unknown as QueryEntry<unknown>)
+    entry.store.subscribe(s => s, () => this.notifyCache())
+    this.notifyCache()
     return entry
   }
 
+  private notifyCache() {
+    for (const listener of [...this.cacheListeners]) listener()
+  }
+
+  /** Calls `listener` whenever a query is added, changes state or is removed. */
+  subscribe(listener: () => void): Unsubscribe {
+    this.cacheListeners.add(listener)
+    return () => { this.cacheListeners.delete(listener) }
+  }
+
   /**
    * Starts observing a query. Fetches immediately when the cached value is
    * missing or stale; otherwise serves the cache and revalidates in the
@@ -506,16 +655,7 @@ export class QueryClient {
     let destroyed = false
     return {
       store: entry.store,
-      getState: () => {
-        const state = entry.store.read()
-        if (state.data === undefined && resolved.placeholderData !== undefined) {
-          const placeholder = typeof resolved.placeholderData === "function"
-            ? (resolved.placeholderData as () => TData)()
-            : resolved.placeholderData
-          return { ...state, data: placeholder }
-        }
-        return state
-      },
+      getState: () => withPlaceholder(entry.store.read(), resolved),
       subscribe: (listener) => entry.store.subscribe(s => s as unknown as QueryState<TData>, listener),
       refetch: () => entry.fetch(true),
       destroy: () => {
@@ -559,8 +699,7 @@ export class QueryClient {
     const next = typeof updater === "function"
       ? (updater as (p: TData | undefined) => TData)(prev)
       : updater
-    entry.setData(next)
-    return next
+    return entry.setData(next)
   }
 
   getQueryState<TData>(key: QueryKey): QueryState<TData> | undefined {
@@ -635,16 +774,18 @@ export class QueryClient {
    * client.hydrate(state)
    * ```
    */
-  dehydrate(): DehydratedState {
+  dehydrate(options?: DehydrateOptions): DehydratedState {
     const queries: DehydratedQuery[] = []
     for (const entry of this.entries.values()) {
       const state = entry.store.read()
       if (state.status !== "success" || state.data === undefined) continue
-      queries.push({
+      const query: DehydratedQuery = {
         queryKey: entry.key,
         data: state.data,
         dataUpdatedAt: state.dataUpdatedAt,
-      })
+      }
+      if (options?.shouldDehydrateQuery?.(query) === false) continue
+      queries.push(query)
     }
     return { queries }
   }
@@ -664,10 +805,20 @@ export class QueryClient {
   }
 
   /**
-   * Wires window `focus` and `online` events to revalidation. Skipped outside
-   * the browser so the client works unchanged on the server.
+   * Wires window `focus` events and reconnects reported by the online manager
+   * to revalidation. Focus is skipped outside the browser so the client works
+   * unchanged on the server.
    */
   private bindBrowserEvents() {
+    this.onlineUnsub = this.network.subscribe(online => {
+      if (!online) return
+      for (const entry of this.entries.values()) {
+        if (entry.getOptions().refetchOnReconnect && entry.observerCount() > 0 && entry.isStale()) {
+          void entry.fetch(true).catch(() => void 0)
+        }
+      }
+    })
+
     const target = globalThis as unknown as {
       addEventListener?: (type: string, fn: () => void) => void
       removeEventListener?: (type: string, fn: () => void) => void
@@ -681,28 +832,44 @@ export class QueryClient {
         }
       }
     }
-    const onOnline = () => {
-      for (const entry of this.entries.values()) {
-        if (entry.getOptions().refetchOnReconnect && entry.observerCount() > 0 && entry.isStale()) {
-          void entry.fetch(true).catch(() => void 0)
-        }
-      }
-    }
-
     target.addEventListener("focus", onFocus)
-    target.addEventListener("online", onOnline)
     this.focusUnsub = () => target.removeEventListener?.("focus", onFocus)
-    this.onlineUnsub = () => target.removeEventListener?.("online", onOnline)
   }
 
-  /** Tears down every entry and detaches global listeners. */
+  getMutationCache(): MutationCache {
+    return this.mutationCache
+  }
+
+  /**
+   * Registers options for every mutation with this key — exact match. A
+   * mutation's own options win. Runs restored from storage take their
+   * `mutationFn` and callbacks from here.
+   */
+  setMutationDefaults<TData = unknown, TVariables = unknown, TContext = unknown>(
+    defaults: MutationDefaults<TData, TVariables, TContext>
+  ): void {
+    this.mutationDefaults.set(hashQueryKey(defaults.mutationKey), defaults as unknown as MutationDefaults)
+  }
+
+  getMutationDefaults(mutationKey: QueryKey): MutationDefaults | undefined {
+    return this.mutationDefaults.get(hashQueryKey(mutationKey))
+  }
+
+  /** Replays paused mutations in order. Also happens on every reconnect. */
+  resumePausedMutations(): Promise<void> {
+    return this.mutationCache.resumePausedMutations()
+  }
+
+  /** Tears down every entry and detaches global listeners. Paused mutations stay queued. */
   clear(): void {
     for (const entry of [...this.entries.values()]) entry.dispose()
     this.entries.clear()
     this.focusUnsub?.()
     this.onlineUnsub?.()
+    this.mutationUnsub?.()
     this.focusUnsub = null
     this.onlineUnsub = null
+    this.mutationUnsub = null
   }
 }
 
@@ -715,11 +882,20 @@ export interface MutationState<TData, TVariables> {
   isLoading: boolean
   isSuccess: boolean
   isError: boolean
+  /** `true` while a loading mutation waits for the network. */
+  isPaused: boolean
   variables: TVariables | undefined
 }
 
 export interface MutationOptions<TData, TVariables, TContext> {
-  mutationFn: (variables: TVariables) => Promise<TData>
+  /** Required unless the `client` has `setMutationDefaults` for `mutationKey`. */
+  mutationFn?: (variables: TVariables) => Promise<TData>
+  /** Names the mutation: picks up `setMutationDefaults`, and lets a paused run be replayed after a reload. */
+  mutationKey?: QueryKey
+  /** Tracks every run in this client's `MutationCache`, which pauses runs while offline. */
+  client?: QueryClient
+  /** As for queries; only applies with a `client`. Default `online`. */
+  networkMode?: NetworkMode
   /**
    * Runs before the request. Return a context value (for example the previous
    * cache snapshot) and it is handed back to `onError` for rollback.
@@ -737,6 +913,12 @@ export interface MutationOptions<TData, TVariables, TContext> {
   retryDelay?: number | ((attempt: number) => number)
 }
 
+/** Options registered with `QueryClient.setMutationDefaults` for every mutation with this key. */
+export interface MutationDefaults<TData = unknown, TVariables = unknown, TContext = unknown>
+  extends Omit<MutationOptions<TData, TVariables, TContext>, "client" | "mutationKey" | "onMutate"> {
+  mutationKey: QueryKey
+}
+
 export interface Mutation<TData, TVariables> {
   readonly store: Store<MutationState<TData, TVariables>>
   getState(): MutationState<TData, TVariables>
@@ -745,12 +927,364 @@ export interface Mutation<TData, TVariables> {
   reset(): void
 }
 
+export type MutationEntryStatus = "pending" | "paused"
+
+/** A mutation run in progress, as `MutationCache.getAll()` reports it. */
+export interface MutationEntry {
+  readonly id: number
+  readonly mutationKey: QueryKey | undefined
+  readonly variables: unknown
+  readonly context: unknown
+  readonly status: MutationEntryStatus
+  readonly submittedAt: number
+}
+
+/** The paused queue as written to storage. */
+export interface PersistedMutation {
+  mutationKey: QueryKey
+  variables: unknown
+  context: unknown
+  submittedAt: number
+}
+
+export interface MutationCacheOptions {
+  /**
+   * Persists the paused queue; runs restored from it wait for
+   * `resumePausedMutations`. An async storage is read back in the background
+   * and the runs it holds join the front of the queue.
+   */
+  storage?: AsyncStorageLike
+  /** Default `exostate:mutations`. */
+  storageKey?: string
+}
+
+interface TrackedMutation {
+  id: number
+  mutationKey: QueryKey | undefined
+  variables: unknown
+  context: unknown
+  status: MutationEntryStatus
+  submittedAt: number
+  /** Set once the run has paused: it stays persisted until it settles. */
+  queued: boolean
+  /** Lets a paused run of this session continue; `null` for runs restored from storage. */
+  wake: (() => void) | null
+  /** Tells the resume loop that the run settled or paused again. */
+  moved: (() => void) | null
+}
+
+/** What a run sees of the cache that tracks it. */
+interface MutationRun {
+  isOnline(): boolean
+  setContext(context: unknown): void
+  /** Queues the run behind earlier paused ones until the network is back. */
+  pause(): Promise<void>
+  settle(): void
+}
+
+/**
+ * Tracks the mutation runs of a `QueryClient` and holds the queue of runs
+ * paused while offline. On reconnect — or `resumePausedMutations()` — the
+ * queue replays one run at a time, in the order the runs were made. Only runs
+ * of mutations created with a `client` are tracked.
+ *
+ * With `storage`, paused runs that have a `mutationKey` are persisted with
+ * their variables and `onMutate` context, so the queue survives a reload.
+ * Restored runs have no `mutationFn` of their own: register one with
+ * `setMutationDefaults` before resuming. The queue stops at the first run
+ * without one rather than replaying out of order.
+ *
+ * @example
+ * ```ts
+ * const client = new QueryClient({
+ *   mutationCache: new MutationCache({ storage: localStorage }),
+ * })
+ * client.setMutationDefaults({ mutationKey: ['addNote'], mutationFn: api.addNote })
+ * void client.resumePausedMutations()
+ * ```
+ */
+export class MutationCache {
+  private entries: TrackedMutation[] = []
+  private listeners = new Set<() => void>()
+  private nextId = 1
+  private network: OnlineManager | null = null
+  private defaults: (key: QueryKey) => MutationDefaults | undefined = () => undefined
+  private resuming: Promise<void> | null = null
+  private readonly storage: AsyncStorageLike | undefined
+  private readonly storageKey: string
+  /** An async read or write in flight; storage sees one at a time. */
+  private pending: Promise<void> | null = null
+  private dirty = false
+
+  constructor(options?: MutationCacheOptions) {
+    this.storage = options?.storage
+    this.storageKey = options?.storageKey ?? "exostate:mutations"
+    const raw = this.storage?.getItem(this.storageKey) ?? null
+    if (raw instanceof Promise) this.wait(raw.then(value => this.restore(value)))
+    else this.restore(raw)
+  }
+
+  /**
+   * Connects the cache to its client's online manager and mutation defaults.
+   * Called by `QueryClient`; the returned function detaches it.
+   */
+  mount(network: OnlineManager, defaults: (key: QueryKey) => MutationDefaults | undefined): Unsubscribe {
+    this.network = network
+    this.defaults = defaults
+    const unsubscribe = network.subscribe(online => {
+      if (online) void this.resumePausedMutations()
+    })
+    return () => {
+      unsubscribe()
+      this.network = null
+    }
+  }
+
+  /** Every run in progress, in the order they were made. */
+  getAll(): MutationEntry[] {
+    return this.entries.map(({ id, mutationKey, variables, context, status, submittedAt }) =>
+      ({ id, mutationKey, variables, context, status, submittedAt }))
+  }
+
+  /** Called whenever a run starts, pauses, resumes or settles. */
+  subscribe(listener: () => void): Unsubscribe {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  /** Registers a run. `createMutation` calls this for mutations made with a `client`. */
+  track(mutationKey: QueryKey | undefined, variables: unknown): MutationRun {
+    const entry: TrackedMutation = {
+      id: this.nextId++,
+      mutationKey,
+      variables,
+      context: undefined,
+      status: "pending",
+      submittedAt: Date.now(),
+      queued: false,
+      wake: null,
+      moved: null,
+    }
+    this.entries.push(entry)
+    this.notify()
+    return this.runFor(entry)
+  }
+
+  /**
+   * Replays paused runs in order while online. Resolves once the queue is
+   * empty, the network drops again, or a restored run has no `mutationFn`.
+   */
+  resumePausedMutations(): Promise<void> {
+    if (this.resuming) return this.resuming
+    const drain = async () => {
+      await this.pending
+      for (;;) {
+        if (!this.isOnline()) return
+        const next = this.entries.find(entry => entry.status === "paused")
+        if (!next || !(await this.resume(next))) return
+      }
+    }
+    this.resuming = drain().finally(() => { this.resuming = null })
+    return this.resuming
+  }
+
+  /** Drops every tracked run and the persisted queue. Runs already executing still finish. */
+  clear(): void {
+    this.entries = []
+    this.persist()
+    this.notify()
+  }
+
+  private isOnline(): boolean {
+    return this.network?.isOnline() ?? true
+  }
+
+  private runFor(entry: TrackedMutation): MutationRun {
+    return {
+      isOnline: () => this.isOnline(),
+      setContext: (context) => { entry.context = context },
+      pause: () => new Promise<void>(resolve => {
+        entry.status = "paused"
+        entry.queued = true
+        entry.wake = resolve
+        this.persist()
+        this.notify()
+        this.moved(entry)
+        if (this.isOnline()) void this.resumePausedMutations()
+      }),
+      settle: () => {
+        const index = this.entries.indexOf(entry)
+        if (index !== -1) this.entries.splice(index, 1)
+        if (entry.queued) this.persist()
+        this.notify()
+        this.moved(entry)
+      },
+    }
+  }
+
+  /** Resumes one paused run and waits until it settles or pauses again; `false` if it can't run. */
+  private async resume(entry: TrackedMutation): Promise<boolean> {
+    const defaults = entry.mutationKey ? this.defaults(entry.mutationKey) : undefined
+    if (!entry.wake && !defaults?.mutationFn) return false
+
+    const moved = new Promise<void>(resolve => { entry.moved = resolve })
+    entry.status = "pending"
+    this.notify()
+    if (entry.wake) {
+      const wake = entry.wake
+      entry.wake = null
+      wake()
+    } else if (defaults) {
+      void this.replay(entry, defaults)
+    }
+    await moved
+    return true
+  }
+
+  /** Runs a mutation restored from storage with its key's defaults. */
+  private async replay(entry: TrackedMutation, defaults: MutationDefaults): Promise<void> {
+    const run = this.runFor(entry)
+    const { variables, context } = entry
+    try {
+      const data = await executeMutation(defaults, variables, run)
+      await defaults.onSuccess?.(data, variables, context)
+      await defaults.onSettled?.(data, undefined, variables, context)
+    } catch (raw) {
+      const error = toSafeError(raw)
+      try {
+        await defaults.onError?.(error, variables, context)
+        await defaults.onSettled?.(undefined, error, variables, context)
+      } catch {
+        // Nobody awaits a replayed run: a failing callback must not stall the queue.
+      }
+    } finally {
+      run.settle()
+    }
+  }
+
+  private moved(entry: TrackedMutation) {
+    const moved = entry.moved
+    entry.moved = null
+    moved?.()
+  }
+
+  private notify() {
+    for (const listener of [...this.listeners]) listener()
+  }
+
+  /** Queues the stored runs ahead of any made while the storage was being read. */
+  private restore(raw: string | null) {
+    if (!raw) return
+    let records: PersistedMutation[]
+    try {
+      const parsed = JSON.parse(raw) as { mutations?: PersistedMutation[] }
+      records = Array.isArray(parsed.mutations) ? parsed.mutations : []
+    } catch {
+      return
+    }
+    if (records.length === 0) return
+    this.entries.unshift(...records.map((record): TrackedMutation => ({
+      id: this.nextId++,
+      mutationKey: record.mutationKey,
+      variables: record.variables,
+      context: record.context,
+      status: "paused",
+      submittedAt: record.submittedAt,
+      queued: true,
+      wake: null,
+      moved: null,
+    })))
+    this.notify()
+  }
+
+  /** Holds back writes until `task` settles, then writes the latest queue if it changed meanwhile. */
+  private wait(task: Promise<void>) {
+    this.pending = task.catch(() => undefined).then(() => {
+      this.pending = null
+      if (this.dirty) {
+        this.dirty = false
+        this.persist()
+      }
+    })
+  }
+
+  private persist() {
+    if (!this.storage) return
+    if (this.pending) {
+      this.dirty = true
+      return
+    }
+    const mutations: PersistedMutation[] = []
+    for (const entry of this.entries) {
+      if (!entry.queued || entry.mutationKey === undefined) continue
+      const { mutationKey, variables, context, submittedAt } = entry
+      mutations.push({ mutationKey, variables, context, submittedAt })
+    }
+    const written = mutations.length === 0
+      ? this.storage.removeItem(this.storageKey)
+      : this.storage.setItem(this.storageKey, JSON.stringify({ mutations }))
+    if (written instanceof Promise) this.wait(written)
+  }
+}
+
+/**
+ * Calls `mutationFn` with retries. With a tracking `run`, attempts wait for
+ * the network per `networkMode`, and a failure while offline pauses the run
+ * and repeats the same attempt on reconnect instead of spending a retry.
+ */
+async function executeMutation<TData, TVariables, TContext>(
+  options: Omit<MutationOptions<TData, TVariables, TContext>, "client">,
+  variables: TVariables,
+  run: MutationRun | null,
+  onPause?: (paused: boolean) => void
+): Promise<TData> {
+  const mutationFn = options.mutationFn
+  if (!mutationFn) {
+    throw createError("mutation_fn_missing", "Mutation has no mutationFn and no defaults for its mutationKey", {
+      mutationKey: options.mutationKey,
+    })
+  }
+  const mode = options.networkMode ?? "online"
+  const retryDelay = (attempt: number): number => {
+    const delay = options.retryDelay
+    if (delay === undefined) return Math.min(1000 * 2 ** attempt, 30_000)
+    return typeof delay === "function" ? delay(attempt) : delay
+  }
+
+  const attempt = async (n: number, failedOffline: boolean): Promise<TData> => {
+    const mayRunOffline = mode === "always" || (mode === "offlineFirst" && n === 0 && !failedOffline)
+    if (run && !mayRunOffline && !run.isOnline()) {
+      onPause?.(true)
+      await run.pause()
+      onPause?.(false)
+    }
+    try {
+      return await mutationFn(variables)
+    } catch (raw) {
+      if (run && mode !== "always" && !run.isOnline()) return attempt(n, true)
+      const error = toSafeError(raw)
+      if (options.retry !== undefined && n < options.retry) {
+        await new Promise(resolve => setTimeout(resolve, retryDelay(n)))
+        return attempt(n + 1, failedOffline)
+      }
+      throw error
+    }
+  }
+  return attempt(0, false)
+}
+
 /**
  * Creates a mutation with built-in optimistic-update support.
  *
  * `onMutate` runs first and its return value is passed to `onError`, which is
  * the hook for rolling back an optimistic cache write when the request fails.
  *
+ * Pass `client` to track runs in its `MutationCache`: a run made offline then
+ * reports `isPaused` and waits in the cache's queue — its promise settles once
+ * it has replayed on reconnect. Without a `client` no cache sees the run: it
+ * calls `mutationFn` at once, whatever the network, and is never queued or
+ * persisted.
+ *
  * @example
  * ```ts
  * const addTodo = createMutation({
@@ -775,58 +1309,59 @@ export function createMutation<TData, TVariables = void, TContext = unknown>(
     isLoading: false,
     isSuccess: false,
     isError: false,
+    isPaused: false,
     variables: undefined,
   })
 
-  const retryDelay = (attempt: number): number => {
-    const delay = options.retryDelay
-    if (delay === undefined) return Math.min(1000 * 2 ** attempt, 30_000)
-    return typeof delay === "function" ? delay(attempt) : delay
+  /** Fills what `options` leaves out from the client's defaults for its key. */
+  const resolve = (): MutationOptions<TData, TVariables, TContext> => {
+    const { client, mutationKey } = options
+    const defaults = client && mutationKey ? client.getMutationDefaults(mutationKey) : undefined
+    if (!defaults) return options
+    const resolved = { ...defaults } as MutationOptions<TData, TVariables, TContext>
+    for (const key of Object.keys(options) as Array<keyof MutationOptions<TData, TVariables, TContext>>) {
+      if (options[key] !== undefined) Object.assign(resolved, { [key]: options[key] })
+    }
+    return resolved
   }
 
   async function run(variables: TVariables): Promise<TData> {
+    const config = resolve()
     store.patch({
       status: "loading",
       isLoading: true,
       isSuccess: false,
       isError: false,
+      isPaused: false,
       error: undefined,
       variables,
     })
+    const tracked = config.client?.getMutationCache().track(config.mutationKey, variables) ?? null
 
     let context: TContext | undefined
     try {
-      context = await options.onMutate?.(variables)
+      context = await config.onMutate?.(variables)
     } catch (raw) {
       const error = toSafeError(raw)
+      tracked?.settle()
       store.patch({ status: "error", isLoading: false, isError: true, error })
       throw error
     }
-
-    const attempt = async (n: number): Promise<TData> => {
-      try {
-        return await options.mutationFn(variables)
-      } catch (raw) {
-        const error = toSafeError(raw)
-        if (options.retry !== undefined && n < options.retry) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay(n)))
-          return attempt(n + 1)
-        }
-        throw error
-      }
-    }
+    tracked?.setContext(context)
 
     try {
-      const data = await attempt(0)
+      const data = await executeMutation(config, variables, tracked, isPaused => store.patch({ isPaused }))
+      tracked?.settle()
       store.patch({ data, status: "success", isLoading: false, isSuccess: true, isError: false })
-      await options.onSuccess?.(data, variables, context)
-      await options.onSettled?.(data, undefined, variables, context)
+      await config.onSuccess?.(data, variables, context)
+      await config.onSettled?.(data, undefined, variables, context)
       return data
     } catch (raw) {
       const error = toSafeError(raw)
+      tracked?.settle()
       store.patch({ error, status: "error", isLoading: false, isSuccess: false, isError: true })
-      await options.onError?.(error, variables, context)
-      await options.onSettled?.(undefined, error, variables, context)
+      await config.onError?.(error, variables, context)
+      await config.onSettled?.(undefined, error, variables, context)
       throw error
     }
   }
@@ -844,6 +1379,7 @@ export function createMutation<TData, TVariables = void, TContext = unknown>(
         isLoading: false,
         isSuccess: false,
         isError: false,
+        isPaused: false,
         variables: undefined,
       })
     },
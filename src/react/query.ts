@@ -109,20 +109,29 @@ export interface UseMutationResult<TData, TVariables> extends MutationState<TDat
  * `mutate` fires and forgets (rejections are swallowed so an unhandled promise
  * never escapes into the console); `mutateAsync` returns the promise for
  * callers that want to await or catch it.
+ *
+ * Inside a `QueryClientProvider` runs are tracked by that client's
+ * `MutationCache`, so they pause while offline.
  */
 export function useMutation<TData, TVariables = void, TContext = unknown>(
   options: MutationOptions<TData, TVariables, TContext>
 ): UseMutationResult<TData, TVariables> {
   const optionsRef = useRef(options)
   optionsRef.current = options
+  const contextClient = useContext(QueryClientContext) ?? undefined
 
   const [mutation] = useState<Mutation<TData, TVariables>>(() =>
     createMutation<TData, TVariables, TContext>({
-      mutationFn: (vars) => optionsRef.current.mutationFn(vars),
-      onMutate: (vars) => optionsRef.current.onMutate?.(vars) as TContext,
-      onSuccess: (data, vars, ctx) => optionsRef.current.onSuccess?.(data, vars, ctx),
-      onError: (error, vars, ctx) => optionsRef.current.onError?.(error, vars, ctx),
-      onSettled: (data, error, vars, ctx) => optionsRef.current.onSettled?.(data, error, vars, ctx),
+      get mutationFn() { return optionsRef.current.mutationFn },
+      get mutationKey() { return optionsRef.current.mutationKey },
+      get networkMode() { return optionsRef.current.networkMode },
+      client: options.client ?? contextClient,
+      // Getters, so a callback the caller left out stays `undefined` and the
+      // client's mutation defaults can fill it in.
+      get onMutate() { return optionsRef.current.onMutate },
+      get onSuccess() { return optionsRef.current.onSuccess },
+      get onError() { return optionsRef.current.onError },
+      get onSettled() { return optionsRef.current.onSettled },
       get retry() { return optionsRef.current.retry },
       get retryDelay() { return optionsRef.current.retryDelay },
     })
@@ -0,0 +1,148 @@
+import { Equality, NotifyMode, Selector, Unsubscribe } from "./types.js"
+import { Store } from "./store.js"
+import { SafeError, createError } from "./errors.js"
+import { resolveScheduler } from "./scheduler.js"
+
+export interface ReactionContext<R> {
+  /** Aborts when the selection changes again, or the reaction is disposed. */
+  signal: AbortSignal
+  /** The value the effect last ran with; `undefined` on the first run. */
+  previous: R | undefined
+}
+
+export type ReactionEffect<R> = (value: R, context: ReactionContext<R>) => void | Promise<void>
+
+export interface ReactionOptions<R> {
+  /** Run only once the selection has been stable for this many ms. */
+  debounce?: number
+  /** Run at most once per this many ms; the latest selection runs at the end of the window. */
+  throttle?: number
+  /** Run the effect with the current selection right away. Default `false`. */
+  fireImmediately?: boolean
+  /** Decides whether the selection changed. Default `Object.is`. */
+  equals?: Equality<R>
+  /** When a due run happens, as with the store's `notify` option. Default `sync`. */
+  scheduler?: NotifyMode
+  /** Disposes the reaction when the signal aborts. */
+  signal?: AbortSignal
+  /**
+   * Receives a `reaction_failed` SafeError when the effect throws or its
+   * promise rejects. Rejections after an abort are ignored. Defaults to
+   * `console.error`.
+   */
+  onError?: (error: SafeError) => void
+}
+
+/**
+ * Runs `effect` whenever the selected value changes — for autosave,
+ * search-as-you-type, analytics. Unlike `store.effect`, which runs once,
+ * a reaction keeps running until the returned function is called.
+ *
+ * When the selection changes while an async effect is still running, that
+ * effect's `signal` aborts: pass it on to `fetch` and stale requests cancel
+ * themselves. `debounce` and `throttle` rate-limit runs; either way the
+ * effect sees the latest selection.
+ *
+ * @example
+ * ```ts
+ * const stop = reaction(search, s => s.query, async (query, { signal }) => {
+ *   const res = await fetch(`/api/search?q=${query}`, { signal })
+ *   results.set(await res.json())
+ * }, { debounce: 300 })
+ * ```
+ */
+export function reaction<T, R>(
+  store: Store<T>,
+  selector: Selector<T, R>,
+  effect: ReactionEffect<R>,
+  options?: ReactionOptions<R>
+): Unsubscribe {
+  const scheduler = resolveScheduler(options?.scheduler ?? "sync")
+  const report = options?.onError ?? ((error: SafeError) => globalThis.console?.error(error))
+  let latest: R
+  let previous: R | undefined
+  let controller: AbortController | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let lastRun = -Infinity
+  // Bumped to drop a scheduled run: not every scheduler can be cancelled.
+  let pending = 0
+  let disposed = false
+
+  const fail = (cause: unknown, value: R) => {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    report(createError("reaction_failed", `Reaction threw: ${reason}`, { cause, value }))
+  }
+
+  const run = () => {
+    if (disposed) return
+    lastRun = Date.now()
+    const value = latest
+    const current = new AbortController()
+    controller = current
+    const context: ReactionContext<R> = { signal: current.signal, previous }
+    previous = value
+    try {
+      const result = effect(value, context)
+      if (result instanceof Promise) {
+        result.catch(err => {
+          if (!current.signal.aborted) fail(err, value)
+        })
+      }
+    } catch (err) {
+      fail(err, value)
+    }
+  }
+
+  const due = () => {
+    if (scheduler === null) return run()
+    const ticket = ++pending
+    scheduler(() => {
+      if (ticket === pending) run()
+    })
+  }
+
+  const onChange = (value: R) => {
+    latest = value
+    controller?.abort()
+    controller = null
+    if (options?.debounce !== undefined) {
+      if (timer !== null) clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = null
+        due()
+      }, options.debounce)
+    } else if (options?.throttle !== undefined) {
+      if (timer !== null) return
+      const wait = lastRun + options.throttle - Date.now()
+      if (wait <= 0) return due()
+      timer = setTimeout(() => {
+        timer = null
+        due()
+      }, wait)
+    } else {
+      due()
+    }
+  }
+
+  const unsubscribe = store.subscribe(selector, onChange, { eq: options?.equals })
+  const dispose = () => {
+    if (disposed) return
+    disposed = true
+    unsubscribe()
+    if (timer !== null) clearTimeout(timer)
+    pending += 1
+    controller?.abort()
+    options?.signal?.removeEventListener("abort", dispose)
+  }
+  if (options?.signal?.aborted) {
+    dispose()
+    return dispose
+  }
+  options?.signal?.addEventListener("abort", dispose, { once: true })
+
+  if (options?.fireImmediately) {
+    latest = selector(store.snapshot())
+    run()
+  }
+  return dispose
+}
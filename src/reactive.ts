@@ -0,0 +1,6 @@
+// The `exostate/reactive` entry point: effects and derived values that react
+// to what they read. Kept out of the core entry so stores that only
+// subscribe don't ship the dependency tracker.
+export * from "./auto.js"
+export * from "./reaction.js"
+export * from "./when.js"
@@ -0,0 +1,94 @@
+import type { Store } from "./store.js"
+import { ExostatePlugin, Unsubscribe } from "./types.js"
+
+export interface RegisteredStore {
+  name: string
+  store: Store<unknown>
+}
+
+export interface RegistryEvent extends RegisteredStore {
+  type: "register" | "unregister"
+}
+
+const registry = new Map<string, Store<unknown>>()
+const registryListeners = new Set<(event: RegistryEvent) => void>()
+
+function emit(event: RegistryEvent) {
+  for (const listener of [...registryListeners]) listener(event)
+}
+
+/**
+ * Adds `store` to the global registry under `name`. Returns a function that
+ * removes the entry again. `registerAs` does this for a store's lifetime.
+ *
+ * A name that is already taken moves to `store` with a console warning, so a
+ * module re-run by hot reloading or by a test doesn't fail on its own stores.
+ * The previous store is left alive; only its entry is replaced.
+ */
+export function registerStore<T>(name: string, store: Store<T>): Unsubscribe {
+  const entry = store as Store<unknown>
+  const previous = registry.get(name)
+  if (previous !== undefined) {
+    globalThis.console?.warn(`[exostate] A store named "${name}" was already registered; the new store replaces it`)
+    registry.delete(name)
+    emit({ type: "unregister", name, store: previous })
+  }
+  registry.set(name, entry)
+  emit({ type: "register", name, store: entry })
+  return () => {
+    if (registry.get(name) !== entry) return
+    registry.delete(name)
+    emit({ type: "unregister", name, store: entry })
+  }
+}
+
+/**
+ * A plugin that registers its store under `name` until the store is destroyed
+ * or the plugin detached. Registration is opt-in so that stores which never
+ * need looking up don't ship the registry.
+ *
+ * @example
+ * ```ts
+ * const user = createStore({ name: "" }, { plugins: [registerAs("user")] })
+ * getStore("user") === user   // true
+ * ```
+ */
+export function registerAs<T>(name: string): ExostatePlugin<T> {
+  return {
+    name: "ExostateRegistry",
+    onInit: store => registerStore(name, store as unknown as Store<T>),
+  }
+}
+
+/**
+ * Removes the entry for `name` without destroying its store. Returns whether
+ * there was one.
+ */
+export function unregisterStore(name: string): boolean {
+  const store = registry.get(name)
+  if (!store) return false
+  registry.delete(name)
+  emit({ type: "unregister", name, store })
+  return true
+}
+
+/** The registered store named `name`, if any. */
+export function getStore<T = unknown>(name: string): Store<T> | undefined {
+  return registry.get(name) as Store<T> | undefined
+}
+
+/** Every registered store, in registration order. */
+export function listStores(): RegisteredStore[] {
+  return [...registry].map(([name, store]) => ({ name, store }))
+}
+
+/**
+ * Calls `listener` whenever a store is registered or unregistered — for a
+ * devtools panel that lists every store as it appears.
+ */
+export function subscribeRegistry(listener: (event: RegistryEvent) => void): Unsubscribe {
+  registryListeners.add(listener)
+  return () => {
+    registryListeners.delete(listener)
+  }
+}
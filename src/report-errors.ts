@@ -0,0 +1,52 @@
+import { SafeError, createError, isSafeError } from "./errors.js"
+import { StoreErrorDetails, StoreErrorPolicy, StoreErrorReporter } from "./types.js"
+
+export interface ReportErrorsOptions {
+  /**
+   * Receives a `SafeError` (code `listener_failed` or `plugin_failed`, with
+   * `StoreErrorDetails`) whenever a listener or plugin hook throws, and the
+   * `validation_failed` error of any commit a plugin rejects.
+   */
+  onError?: (error: SafeError) => void
+  /** How a failure affects delivery. Default `throw-after-delivery`. */
+  policy?: StoreErrorPolicy
+}
+
+function failureError(details: StoreErrorDetails): SafeError {
+  const { cause } = details
+  if (isSafeError(cause) && cause.code === "validation_failed") return cause
+  const reason = cause instanceof Error ? cause.message : String(cause)
+  const label = details.name !== undefined ? ` "${details.name}"` : ""
+  return details.source === "plugin"
+    ? createError("plugin_failed", `Plugin${label} threw in ${details.hook ?? "a hook"}: ${reason}`, details)
+    : createError("listener_failed", `Listener${label} threw: ${reason}`, details)
+}
+
+/**
+ * Reports a store's failing listeners and plugin hooks as SafeErrors — to
+ * `onError` and to every plugin's `onError` hook — and sets the error policy.
+ * Pass it as the `errors` store option. Errors thrown by the handlers
+ * themselves are dropped: there is nowhere left to send them.
+ *
+ * @example
+ * ```ts
+ * const store = createStore(initial, {
+ *   errors: reportErrors({ onError: error => log(error), policy: "isolate" }),
+ * })
+ * ```
+ */
+export function reportErrors(options?: ReportErrorsOptions): StoreErrorReporter {
+  return {
+    policy: options?.policy ?? "throw-after-delivery",
+    report(details, plugins) {
+      const error = failureError(details)
+      for (const onError of [options?.onError, ...plugins.map(plugin => plugin.onError?.bind(plugin))]) {
+        try {
+          onError?.(error)
+        } catch {
+          // ignored
+        }
+      }
+    },
+  }
+}
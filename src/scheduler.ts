@@ -0,0 +1,14 @@
+import { NotifyMode, NotifyScheduler } from "./types.js"
+
+const microtask: NotifyScheduler = flush => {
+  queueMicrotask(flush)
+}
+
+/**
+ * Maps a `notify` option to the scheduler a store queues notifications with.
+ * Returns `null` for `sync`, which delivers inside the mutation call.
+ */
+export function resolveScheduler(mode: NotifyMode): NotifyScheduler | null {
+  if (typeof mode === "function") return mode
+  return mode === "microtask" ? microtask : null
+}
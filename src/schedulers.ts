@@ -0,0 +1,44 @@
+import { NotifyPriority, NotifyScheduler } from "./types.js"
+
+interface SchedulerHost {
+  requestAnimationFrame?: (fn: () => void) => number
+  cancelAnimationFrame?: (handle: number) => void
+  scheduler?: {
+    postTask?: (fn: () => void, options: { priority: NotifyPriority; signal: AbortSignal }) => Promise<unknown>
+  }
+}
+
+/** Coalesces notifications onto the next macrotask, via `setTimeout(0)`. */
+export const timeoutScheduler: NotifyScheduler = flush => {
+  const handle = setTimeout(flush, 0)
+  return () => clearTimeout(handle)
+}
+
+/**
+ * Coalesces notifications to at most one per animation frame. Outside the
+ * browser there are no frames; ~60fps timers keep the cadence.
+ */
+export const rafScheduler: NotifyScheduler = flush => {
+  const host = globalThis as unknown as SchedulerHost
+  if (typeof host.requestAnimationFrame !== "function") {
+    const handle = setTimeout(flush, 16)
+    return () => clearTimeout(handle)
+  }
+  const handle = host.requestAnimationFrame(flush)
+  return () => host.cancelAnimationFrame?.(handle)
+}
+
+/**
+ * Queues notifications with `scheduler.postTask` in the `priority` lane,
+ * falling back to `setTimeout(0)` where the API is missing.
+ */
+export function priorityScheduler(priority: NotifyPriority): NotifyScheduler {
+  return flush => {
+    const host = globalThis as unknown as SchedulerHost
+    if (typeof host.scheduler?.postTask !== "function") return timeoutScheduler(flush)
+    const controller = new AbortController()
+    // An aborted task rejects its promise; cancellation is not an error.
+    host.scheduler.postTask(flush, { priority, signal: controller.signal }).catch(() => void 0)
+    return () => controller.abort()
+  }
+}
@@ -1,12 +1,77 @@
+import { SafeError, createError, isSafeError } from "./errors.js"
+
 export interface Schema<T> {
   parse(x: unknown): T
+  /** Set by schemas that may validate asynchronously; async callers prefer it. */
+  parseAsync?(x: unknown): Promise<T>
+}
+
+/** One problem a schema found with a value. */
+export interface ValidationIssue {
+  path: ReadonlyArray<PropertyKey>
+  message: string
+}
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * valibot, arktype, zod 3.24+ and others. Declared here rather than imported,
+ * as the spec recommends.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output }
+  }
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/** Anything a schema is accepted as: a `Schema<T>` or a Standard Schema validator. */
+export type SchemaLike<T> = Schema<T> | StandardSchemaV1<unknown, T>
+
+/**
+ * The error every schema built here throws: a `validation_failed` SafeError
+ * whose `details.issues` lists each problem with its path.
+ */
+export function schemaError(issues: ReadonlyArray<ValidationIssue>): SafeError {
+  const first = issues[0]
+  const where = first && first.path.length > 0 ? ` at "${first.path.map(String).join(".")}"` : ""
+  return createError("validation_failed", `Validation failed${where}: ${first?.message ?? "Invalid schema"}`, { issues })
+}
+
+/**
+ * The issues behind a schema failure: `details.issues` of a `validation_failed`
+ * SafeError, the `issues` a zod error carries, or else one issue made from
+ * the error's message.
+ */
+export function issuesOf(error: unknown): ReadonlyArray<ValidationIssue> {
+  if (isSafeError(error) && error.code === "validation_failed") {
+    const issues = (error.details as { issues?: ReadonlyArray<ValidationIssue> } | undefined)?.issues
+    if (issues) return issues
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  const reported = (error as { issues?: unknown } | null)?.issues
+  if (!Array.isArray(reported)) return [{ path: [], message }]
+  return reported.map((issue: { path?: PropertyKey[]; message?: string }) => ({
+    path: issue.path ?? [],
+    message: issue.message ?? message,
+  }))
 }
 
 export function fromPredicate<T>(predicate: (x: unknown) => x is T): Schema<T> {
   return {
     parse(x: unknown): T {
       if (!predicate(x)) {
-        throw new Error("Invalid schema")
+        throw schemaError([{ path: [], message: "Invalid schema" }])
       }
       return x
     }
@@ -22,3 +87,47 @@ export function zodSchema<T>(schema: { parse: (x: unknown) => T }): Schema<T> {
 }
 
 export const fromZod = zodSchema
+
+function unwrapResult<T>(result: StandardSchemaResult<T>): T {
+  if (!result.issues) return result.value
+  throw schemaError(result.issues.map(issue => ({
+    path: (issue.path ?? []).map(segment => typeof segment === "object" ? segment.key : segment),
+    message: issue.message,
+  })))
+}
+
+/**
+ * Wraps a Standard Schema validator. `parse` throws a `schema_async` SafeError
+ * on a validator that answers asynchronously; `parseAsync` awaits it.
+ */
+export function fromStandard<T>(schema: StandardSchemaV1<unknown, T>): Schema<T> {
+  const standard = schema["~standard"]
+  return {
+    parse(x: unknown): T {
+      const result = standard.validate(x)
+      if (result instanceof Promise) {
+        throw createError(
+          "schema_async",
+          `The ${standard.vendor} schema validates asynchronously; it can't be used synchronously`,
+          { vendor: standard.vendor }
+        )
+      }
+      return unwrapResult(result)
+    },
+    async parseAsync(x: unknown): Promise<T> {
+      return unwrapResult(await standard.validate(x))
+    },
+  }
+}
+
+/** Normalizes a `SchemaLike`, preferring the Standard Schema interface when present. */
+export function toSchema<T>(schema: SchemaLike<T>): Schema<T> {
+  if ("~standard" in schema) return fromStandard(schema)
+  return schema
+}
+
+/** Parses with `parseAsync` when the schema has it, else `parse`. */
+export async function parseSchemaAsync<T>(schema: SchemaLike<T>, value: unknown): Promise<T> {
+  const normalized = toSchema(schema)
+  return normalized.parseAsync ? normalized.parseAsync(value) : normalized.parse(value)
+}
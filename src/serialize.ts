@@ -1,4 +1,5 @@
 import { DeepReadonly } from "./types.js"
+import { SchemaLike, fromPredicate, toSchema } from "./schema.js"
 
 export interface Serializer<T> {
   version: number
@@ -9,7 +10,12 @@ export interface Serializer<T> {
 export type Migration = (input: unknown) => unknown
 
 export interface SerializerOptions<T> {
-  validate: (x: unknown) => x is T
+  /**
+   * Checks the migrated data: a type guard, a `Schema`, or a Standard Schema
+   * validator. A schema's output is what `decode` returns. Failures throw a
+   * `validation_failed` SafeError listing the issues.
+   */
+  validate: ((x: unknown) => x is T) | SchemaLike<T>
   migrations?: Record<number, Migration>
 }
 
@@ -25,7 +31,12 @@ function isVersioned(x: unknown): x is { v: number; data: unknown } {
 }
 
 export function createSerializer<T>(version: number, options: SerializerOptions<T>): Serializer<T> {
-  const validate = options.validate
+  const { validate } = options
+  // Callable validators such as arktype's `type(...)` are functions too: only
+  // a function without `~standard` is a plain type guard.
+  const schema = typeof validate === "function" && !("~standard" in validate)
+    ? fromPredicate(validate)
+    : toSchema(validate as SchemaLike<T>)
   const migrations = options.migrations ?? {}
   
   return {
@@ -51,10 +62,7 @@ export function createSerializer<T>(version: number, options: SerializerOptions<
         dataUnknown = step(dataUnknown)
         currVersion += 1
       }
-      if (!validate(dataUnknown)) {
-        throw new Error("Validation failed")
-      }
-      return dataUnknown
+      return schema.parse(dataUnknown)
     }
   }
 }
@@ -1,14 +1,23 @@
 import { Store } from "./store.js"
 import { DeepReadonly } from "./types.js"
 import { Serializer } from "./serialize.js"
+import { SchemaLike, toSchema } from "./schema.js"
 
 export function dehydrate<T>(store: Store<T>, serializer?: Serializer<T>): string {
   const snap = store.snapshot() as DeepReadonly<T>
   return serializer ? serializer.encode(snap) : JSON.stringify(snap)
 }
 
-export function rehydrate<T>(store: Store<T>, raw: string, serializer?: Serializer<T>): T {
-  const next = serializer ? serializer.decode(raw) : (JSON.parse(raw) as T)
+/**
+ * Writes a `dehydrate` payload into `store`. Pass a serializer to migrate and
+ * check it, or just a schema (`Schema` or Standard Schema) to check plain JSON.
+ */
+export function rehydrate<T>(store: Store<T>, raw: string, decoder?: Serializer<T> | SchemaLike<T>): T {
+  let next: T
+  if (decoder === undefined) next = JSON.parse(raw) as T
+  // Checked this way round: zod schemas have a `decode` method of their own.
+  else if ("parse" in decoder || "~standard" in decoder) next = toSchema(decoder).parse(JSON.parse(raw))
+  else next = decoder.decode(raw)
   return store.set(next)
 }
 
@@ -1,4 +1,7 @@
 import { Store, createStore } from "./store.js"
+import { Observable, StoreOptions, Subscribable } from "./types.js"
+import { SafeError, createError } from "./errors.js"
+import { observableOf } from "./interop.js"
 
 /**
  * Creates a store factory that produces isolated store instances.
@@ -81,3 +84,58 @@ export function cachedStoreFactory<T>(
     }
   }
 }
+
+export interface FromObservableOptions<T> extends StoreOptions<T> {
+  /** Receives a `source_failed` SafeError if the observable errors. */
+  onError?: (error: SafeError) => void
+}
+
+/**
+ * Creates a store fed by an observable: it holds `initial` until the source
+ * emits, then each emitted value. It subscribes at once and unsubscribes when
+ * the store is destroyed. Writes to the store itself are allowed and last
+ * until the next emission.
+ *
+ * An error from the source stops the feed; the store keeps its last value
+ * and `options.onError` receives a `source_failed` SafeError.
+ *
+ * @example
+ * ```ts
+ * const price = fromObservable(ticker$.pipe(map(t => t.price)), 0)
+ * price.subscribe(p => p, render)
+ * ```
+ */
+export function fromObservable<T>(
+  source: Subscribable<T> | Observable<T>,
+  initial: T,
+  options?: FromObservableOptions<T>
+): Store<T> {
+  let subscription: { unsubscribe(): void } | null = null
+  let stopped = false
+  const store = createStore<T>(initial, {
+    ...options,
+    plugins: [
+      ...(options?.plugins ?? []),
+      {
+        name: "ExostateFromObservable",
+        onInit: () => () => {
+          stopped = true
+          subscription?.unsubscribe()
+        },
+      },
+    ],
+  })
+  subscription = observableOf(source).subscribe({
+    next: value => {
+      if (!stopped) store.set(value, { source: "observable" })
+    },
+    error: err => {
+      stopped = true
+      const reason = err instanceof Error ? err.message : String(err)
+      options?.onError?.(createError("source_failed", `Observable source failed: ${reason}`, { cause: err }))
+    },
+  })
+  // The source may have failed, or the store been destroyed, inside `subscribe`.
+  if (stopped) subscription.unsubscribe()
+  return store
+}
@@ -10,18 +10,32 @@ import {
   Effect,
   ExostatePlugin,
   StoreOptions,
-  NotifyMode,
+  NotifyScheduler,
+  CommitMeta,
+  StoreErrorPolicy,
+  StoreErrorDetails,
 } from "./types.js"
 import { State } from "./state.js"
+import { resolveScheduler } from "./scheduler.js"
+import { isInternalPlugin } from "./internal-plugins.js"
+import { tracking } from "./tracking-context.js"
+import { bindSignal } from "./abort.js"
 
 export interface Store<T> extends State<T> {
-  update<P>(reducer: Reducer<T, P>, payload: P): T
-  set(next: T): T
+  update<P>(reducer: Reducer<T, P>, payload: P, meta?: CommitMeta): T
+  set(next: T, meta?: CommitMeta): T
   subscribe<R>(selector: Selector<T, R>, subscriber: Subscriber<R>, options?: SubscribeOptions<R>): Unsubscribe
-  compute(fn: Compute<T>): T
-  batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void): T
+  compute(fn: Compute<T>, meta?: CommitMeta): T
+  batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void, meta?: CommitMeta): T
   effect<P>(fn: Effect<T, P>, payload: P): void | Promise<void>
-  patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>)): T
+  patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>), meta?: CommitMeta): T
+  /** The state the store was created with. Runs a `lazy()` initializer if it hasn't run yet. */
+  getInitialState(): T
+  /**
+   * Commit the initial state again. It is an ordinary write: plugins,
+   * history and persistence all see it.
+   */
+  reset(meta?: CommitMeta): T
   /** Attach a plugin. Returns a function that detaches it. */
   use(plugin: ExostatePlugin<T>): Unsubscribe
   /** Plugins currently attached, in attach order. */
@@ -37,28 +51,173 @@ interface PluginRegistration<T> {
   cleanup?: () => void
 }
 
+// Global batch state. Stores that commit inside `batch()` queue themselves
+// here instead of notifying, and are released when the outermost batch exits.
+let batchDepth = 0
+let batchedStores = new Set<{ releaseBatch(): void }>()
+
+function releaseBatchedStores() {
+  let failure: { error: unknown } | null = null
+  // Listeners may write while being released; those writes run unbatched.
+  const stores = batchedStores
+  batchedStores = new Set()
+  for (const store of stores) {
+    try {
+      store.releaseBatch()
+    } catch (error) {
+      if (failure === null) failure = { error }
+    }
+  }
+  if (failure !== null) throw failure.error
+}
+
+/**
+ * Runs `fn` and holds back listener notification on every store written
+ * inside it until the outermost `batch()` returns. Each store then notifies
+ * once, so listeners spanning several stores (`combineStores`, `useStores`)
+ * see one consistent value instead of a cascade of intermediate ones.
+ *
+ * Writes still commit immediately — reads inside `fn` see them, and plugin
+ * hooks and patch listeners run per write. Only the synchronous part of `fn`
+ * is batched.
+ *
+ * @example
+ * ```ts
+ * batch(() => {
+ *   cart.set({ items: [] })
+ *   user.patch({ checkoutStep: "done" })
+ * })
+ * ```
+ */
+export function batch<R>(fn: () => R): R {
+  batchDepth += 1
+  let result: R
+  try {
+    result = fn()
+  } catch (err) {
+    batchDepth -= 1
+    // Writes made before the throw are committed, so their listeners still run.
+    if (batchDepth === 0) {
+      try {
+        releaseBatchedStores()
+      } catch {
+        // The callback's error is the one worth surfacing.
+      }
+    }
+    throw err
+  }
+  batchDepth -= 1
+  if (batchDepth === 0) releaseBatchedStores()
+  return result
+}
+
+// Returned by a before-hook whose plugin rejected the commit.
+const REJECTED: unique symbol = Symbol("rejected")
+
+/** An initial state computed on first use, made by `lazy()`. */
+export class Lazy<T> {
+  /** Installs the initializer on a store under construction. */
+  constructor(readonly defer: (store: { current: T }) => void) {}
+}
+
+/**
+ * Until a lazy initializer has run, a store's `current` and `initial` are own
+ * accessors that run it and then replace themselves with plain values, so
+ * stores created with a value never pay for the check.
+ */
+function deferInit<T>(store: { current: T }, init: () => T) {
+  const run = () => initialize(store, init)
+  Object.defineProperties(store, {
+    current: {
+      get: run,
+      set: (next: T) => {
+        run()
+        store.current = next
+      },
+      configurable: true,
+      enumerable: true,
+    },
+    initial: { get: run, configurable: true, enumerable: true },
+  })
+}
+
+function initialize<T>(store: { current: T }, init: () => T): T {
+  // Reading the store from its own initializer would recurse forever.
+  const recurse = () => {
+    throw new Error("A store's lazy initializer cannot read the store")
+  }
+  Object.defineProperties(store, {
+    current: { get: recurse, configurable: true, enumerable: true },
+    initial: { get: recurse, configurable: true, enumerable: true },
+  })
+  let value: T
+  try {
+    value = init()
+  } catch (err) {
+    deferInit(store, init)
+    throw err
+  }
+  const field = { value, writable: true, configurable: true, enumerable: true }
+  Object.defineProperties(store, { current: field, initial: field })
+  return value
+}
+
+/**
+ * Wraps a function that computes a store's initial state. `createStore` runs
+ * it on the store's first read, subscribe or write, so a store nobody uses
+ * never pays for it. Any other function passed to `createStore` is state.
+ *
+ * @example
+ * ```ts
+ * const settings = createStore(lazy(() => loadDefaults()))
+ * ```
+ */
+export function lazy<T>(init: () => T): Lazy<T> {
+  return new Lazy(store => deferInit(store, init))
+}
+
 export class StoreImpl<T> implements Store<T> {
   version = 0
   listeners = new Set<() => void>()
   destroyed = false
+  current!: T
 
   private readonly options: StoreOptions<T>
-  private readonly mode: NotifyMode
+  private initial!: T
+  /** `null` in `sync` mode: notifications are delivered inside the write. */
+  private readonly scheduler: NotifyScheduler | null
   private registrations: Array<PluginRegistration<T>> = []
 
-  // Hot-path hook caches. Kept as plain arrays so a store with no plugins
-  // pays only a `.length` check per mutation.
-  private beforeHooks: Array<(prev: DeepReadonly<T>, next: T) => T | void> = []
-  private afterHooks: Array<(prev: DeepReadonly<T>, next: T) => void> = []
-  private subHooks: Array<(count: number) => void> = []
-  private unsubHooks: Array<(count: number) => void> = []
+  // Hot-path hook caches, filled by `rebuildHooks`. Kept as plain arrays so a
+  // store with no plugins pays only a `.length` check per mutation.
+  private beforeHooks!: Array<(prev: DeepReadonly<T>, next: T, meta?: CommitMeta) => T | void | typeof REJECTED>
+  private afterHooks!: Array<(prev: DeepReadonly<T>, next: T, meta?: CommitMeta) => void>
+  private subHooks!: Array<(count: number) => void>
+  private unsubHooks!: Array<(count: number) => void>
+  private notifyHooks!: Array<(value: unknown, listener?: string) => void>
+
+  private readonly errorPolicy: StoreErrorPolicy
+  // Nesting depth of commits and notification passes. Under
+  // `throw-after-delivery` the first failure is held until the outermost
+  // delivery finishes, so a listener that writes re-entrantly can't surface
+  // an error that belongs to the pass around it.
+  private delivering = 0
+  private pendingError: { error: unknown } | null = null
 
   private notifyScheduled = false
+  private cancelNotify: (() => void) | null = null
   private unmountTimer: ReturnType<typeof setTimeout> | null = null
 
-  constructor(public current: T, options?: StoreOptions<T>) {
+  constructor(initial: T | Lazy<T>, options?: StoreOptions<T>) {
+    if (initial instanceof Lazy) {
+      initial.defer(this)
+    } else {
+      this.current = this.initial = initial
+    }
     this.options = options ?? {}
-    this.mode = this.options.notify ?? "sync"
+    this.scheduler = resolveScheduler(this.options.notify ?? "sync")
+    this.errorPolicy = this.options.errors?.policy ?? "throw-after-delivery"
+    this.rebuildHooks()
     if (this.options.plugins) {
       for (const p of this.options.plugins) this.use(p)
     }
@@ -69,24 +228,36 @@ export class StoreImpl<T> implements Store<T> {
   }
 
   read() {
-    return this.current
+    // Seen by an active `autorun`, which tracks the paths read below it.
+    const tracker = tracking.active
+    return tracker === null ? this.current : tracker.read(this, this.current)
   }
 
   snapshot() {
-    return this.current as DeepReadonly<T>
+    return this.read() as DeepReadonly<T>
   }
 
   /**
    * Single write path: runs the plugin pipeline, commits, bumps the version,
    * then schedules notification. Every mutating method funnels through here so
-   * plugins and batching can never be bypassed.
+   * plugins and batching can never be bypassed. `meta` rides along untouched.
    */
-  private commit(next: T): T {
+  private commit(next: T, meta?: CommitMeta): T {
+    // A write made inside an `autorun` may carry tracking views of state it
+    // read; unwrap them. `deliver` keeps plugins and listeners out of it.
+    const tracker = tracking.active
+    const value = tracker === null ? next : tracker.untrack(next, this.current)
+    this.deliver(() => this.apply(value, meta))
+    return this.current
+  }
+
+  private apply(next: T, meta?: CommitMeta) {
     let value = next
     if (this.beforeHooks.length > 0) {
       const prev = this.current as DeepReadonly<T>
       for (const hook of this.beforeHooks) {
-        const replaced = hook(prev, value)
+        const replaced = hook(prev, value, meta)
+        if (replaced === REJECTED) return
         if (replaced !== undefined) value = replaced
       }
     }
@@ -96,61 +267,93 @@ export class StoreImpl<T> implements Store<T> {
     this.version += 1
 
     if (this.afterHooks.length > 0) {
-      for (const hook of this.afterHooks) hook(prev, value)
+      for (const hook of this.afterHooks) hook(prev, value, meta)
     }
     if (this.listeners.size > 0) this.scheduleNotify()
-    return this.current
   }
 
-  update<P>(reducer: Reducer<T, P>, payload: P) {
+  /**
+   * Hands a listener or plugin failure to the `errors` reporter, if there is
+   * one, then applies the error policy.
+   */
+  private reportError(cause: unknown, context: Omit<StoreErrorDetails, "version" | "cause">) {
+    this.options.errors?.report({ ...context, version: this.version, cause }, this.plugins())
+    if (this.errorPolicy === "throw-immediately") throw cause
+    if (this.errorPolicy === "throw-after-delivery" && this.pendingError === null) {
+      this.pendingError = { error: cause }
+    }
+  }
+
+  private throwPending(): never {
+    const { error } = this.pendingError!
+    this.pendingError = null
+    throw error
+  }
+
+  update<P>(reducer: Reducer<T, P>, payload: P, meta?: CommitMeta) {
     this.checkDestroyed()
-    return this.commit(reducer(this.current as DeepReadonly<T>, payload))
+    return this.commit(reducer(this.current as DeepReadonly<T>, payload), meta)
   }
 
-  set(next: T) {
+  set(next: T, meta?: CommitMeta) {
     this.checkDestroyed()
-    return this.commit(next)
+    return this.commit(next, meta)
   }
 
-  compute(fn: Compute<T>) {
+  compute(fn: Compute<T>, meta?: CommitMeta) {
     this.checkDestroyed()
-    return this.commit(fn(this.current as DeepReadonly<T>))
+    return this.commit(fn(this.current as DeepReadonly<T>), meta)
   }
 
-  batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void) {
+  batch(apply: (apply: <P>(reducer: Reducer<T, P>, payload: P) => void) => void, meta?: CommitMeta) {
     this.checkDestroyed()
     let next = this.current
     const applier = <P>(reducer: Reducer<T, P>, payload: P) => {
       next = reducer(next as DeepReadonly<T>, payload)
     }
     apply(applier)
-    return this.commit(next)
+    return this.commit(next, meta)
   }
 
-  patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>)) {
+  patch(partial: Partial<T> | ((prev: DeepReadonly<T>) => Partial<T>), meta?: CommitMeta) {
     this.checkDestroyed()
     const p = typeof partial === 'function'
       ? (partial as (prev: DeepReadonly<T>) => Partial<T>)(this.current as DeepReadonly<T>)
       : partial
-    return this.commit(Object.assign({}, this.current, p))
+    return this.commit(Object.assign({}, this.current, p), meta)
   }
 
   effect<P>(fn: Effect<T, P>, payload: P) {
     return fn(this.current as DeepReadonly<T>, payload)
   }
 
+  getInitialState() {
+    return this.initial
+  }
+
+  reset(meta?: CommitMeta) {
+    this.checkDestroyed()
+    return this.commit(this.initial, meta)
+  }
+
   subscribe<R>(selector: Selector<T, R>, subscriber: Subscriber<R>, options?: SubscribeOptions<R>) {
     this.checkDestroyed()
+    if (options?.signal?.aborted) return () => {}
     const eq: Equality<R> = options?.eq || Object.is
     let prev = selector(this.current as DeepReadonly<T>)
     if (options?.fireImmediately) subscriber(prev)
 
     // Optimize: flatten notify logic to reduce closure/stack depth
     const notify = () => {
-      const next = selector(this.current as DeepReadonly<T>)
-      if (!eq(prev, next)) {
-        prev = next
-        subscriber(next)
+      try {
+        const next = selector(this.current as DeepReadonly<T>)
+        if (!eq(prev, next)) {
+          prev = next
+          for (const hook of this.notifyHooks) hook(next, options?.name)
+          subscriber(next)
+        }
+      } catch (err) {
+        this.reportError(err, { source: "listener", name: options?.name })
       }
     }
 
@@ -175,29 +378,56 @@ export class StoreImpl<T> implements Store<T> {
       this.handleUnsubscribe()
     }
 
-    return unsubscribe
+    return bindSignal(unsubscribe, options?.signal)
   }
 
   private scheduleNotify() {
-    if (this.mode === "sync") {
+    if (batchDepth > 0) {
+      batchedStores.add(this)
+      return
+    }
+    if (this.scheduler === null) {
       this.notifyListeners()
       return
     }
     if (this.notifyScheduled) return
     this.notifyScheduled = true
-    queueMicrotask(() => {
-      if (!this.notifyScheduled) return
-      this.notifyScheduled = false
-      if (this.destroyed) return
-      this.notifyListeners()
-    })
+    this.cancelNotify = this.scheduler(() => this.flush()) ?? null
   }
 
   flush() {
     if (!this.notifyScheduled) return
     this.notifyScheduled = false
+    this.cancelPendingNotify()
+    if (this.destroyed) return
+    this.deliver(() => this.notifyListeners())
+  }
+
+  /** Delivers, or schedules, the notification a global `batch()` held back. */
+  releaseBatch() {
     if (this.destroyed) return
-    this.notifyListeners()
+    this.deliver(() => this.scheduleNotify())
+  }
+
+  /** Runs a commit or notification pass outside any `autorun`, then applies the error policy. */
+  private deliver(run: () => void) {
+    const tracker = tracking.active
+    if (tracker !== null) tracking.active = null
+    this.delivering += 1
+    try {
+      run()
+    } finally {
+      this.delivering -= 1
+      if (tracker !== null) tracking.active = tracker
+    }
+    if (this.pendingError !== null && this.delivering === 0) this.throwPending()
+  }
+
+  /** Drops a scheduled delivery that `flush()` or `destroy()` made redundant. */
+  private cancelPendingNotify() {
+    const cancel = this.cancelNotify
+    this.cancelNotify = null
+    cancel?.()
   }
 
   private notifyListeners() {
@@ -210,17 +440,15 @@ export class StoreImpl<T> implements Store<T> {
       clearTimeout(this.unmountTimer)
       this.unmountTimer = null
     }
-    if (this.subHooks.length === 0 && !this.options.onSubscribe) return
+    if (this.subHooks.length === 0) return
     const count = this.listeners.size
-    this.options.onSubscribe?.(this, count)
     for (const hook of this.subHooks) hook(count)
   }
 
   private handleUnsubscribe() {
-    if (this.unsubHooks.length === 0 && !this.options.onUnsubscribe) return
+    if (this.unsubHooks.length === 0) return
     const emit = () => {
       const count = this.listeners.size
-      this.options.onUnsubscribe?.(this, count)
       for (const hook of this.unsubHooks) hook(count)
     }
     const delay = this.options.unmountDelay ?? 0
@@ -257,22 +485,70 @@ export class StoreImpl<T> implements Store<T> {
   }
 
   plugins(): ReadonlyArray<ExostatePlugin<T>> {
-    return this.registrations.map(r => r.plugin)
+    return this.registrations.map(r => r.plugin).filter(plugin => !isInternalPlugin(plugin))
   }
 
   private rebuildHooks() {
+    const { onSubscribe, onUnsubscribe } = this.options
     this.beforeHooks = []
     this.afterHooks = []
-    this.subHooks = []
-    this.unsubHooks = []
+    // The `onSubscribe`/`onUnsubscribe` options run before plugin hooks.
+    this.subHooks = onSubscribe ? [count => onSubscribe(this, count)] : []
+    this.unsubHooks = onUnsubscribe ? [count => onUnsubscribe(this, count)] : []
+    this.notifyHooks = []
     for (const { plugin } of this.registrations) {
-      if (plugin.onBeforeUpdate) this.beforeHooks.push(plugin.onBeforeUpdate.bind(plugin))
-      if (plugin.onAfterUpdate) this.afterHooks.push(plugin.onAfterUpdate.bind(plugin))
+      if (plugin.onBeforeUpdate) this.beforeHooks.push(this.guardBefore(plugin, plugin.onBeforeUpdate.bind(plugin)))
+      if (plugin.onAfterUpdate) this.afterHooks.push(this.guard(plugin, "onAfterUpdate", plugin.onAfterUpdate.bind(plugin)))
+      if (plugin.onNotify) this.notifyHooks.push(this.guard(plugin, "onNotify", plugin.onNotify.bind(plugin)))
       if (plugin.onSubscribe) this.subHooks.push(plugin.onSubscribe.bind(plugin))
       if (plugin.onUnsubscribe) this.unsubHooks.push(plugin.onUnsubscribe.bind(plugin))
     }
   }
 
+  /**
+   * Binds a commit-time plugin hook so a throw is reported instead of
+   * aborting the commit. A failed `onBeforeUpdate` leaves the value as is.
+   */
+  private guard<A extends unknown[], R>(
+    plugin: ExostatePlugin<T>,
+    hook: string,
+    fn: (...args: A) => R
+  ): (...args: A) => R | undefined {
+    return (...args) => {
+      try {
+        return fn(...args)
+      } catch (err) {
+        this.reportError(err, { source: "plugin", name: plugin.name, hook })
+        return undefined
+      }
+    }
+  }
+
+  /**
+   * `onBeforeUpdate` runs before anything is committed, so a throw aborts the
+   * write like a throwing reducer would. Only the `isolate` policy reports it
+   * and commits the value unchanged instead. A `validation_failed` SafeError
+   * rejects the commit under every policy: it is reported as is, and the
+   * state stays put.
+   */
+  private guardBefore(
+    plugin: ExostatePlugin<T>,
+    fn: (prev: DeepReadonly<T>, next: T, meta?: CommitMeta) => T | void
+  ): (prev: DeepReadonly<T>, next: T, meta?: CommitMeta) => T | void | typeof REJECTED {
+    return (prev, next, meta) => {
+      try {
+        return fn(prev, next, meta)
+      } catch (err) {
+        // Matched by code rather than `instanceof SafeError`, which would
+        // bundle the error classes into every store.
+        const rejected = (err as { code?: unknown } | null)?.code === "validation_failed"
+        if (!rejected && this.errorPolicy !== "isolate") throw err
+        this.reportError(err, { source: "plugin", name: plugin.name, hook: "onBeforeUpdate" })
+        return rejected ? REJECTED : undefined
+      }
+    }
+  }
+
   destroy() {
     if (this.destroyed) return
     this.destroyed = true
@@ -281,17 +557,24 @@ export class StoreImpl<T> implements Store<T> {
       this.unmountTimer = null
     }
     this.notifyScheduled = false
+    this.cancelPendingNotify()
     this.listeners = new Set()
-    for (const registration of this.registrations) {
+    // Taken first: an `onDestroy` may detach plugins while this loop runs.
+    const registrations = this.registrations
+    this.registrations = []
+    for (const registration of registrations) {
       registration.plugin.onDestroy?.()
       registration.cleanup?.()
     }
-    this.registrations = []
     this.rebuildHooks()
     this.version = -1
   }
 }
 
-export function createStore<T>(initial: T, options?: StoreOptions<T>): Store<T> {
+/**
+ * Creates a store. Wrap the initial state in `lazy()` to compute it on first
+ * use instead.
+ */
+export function createStore<T>(initial: T | Lazy<T>, options?: StoreOptions<T>): Store<T> {
   return new StoreImpl(initial, options)
 }
@@ -0,0 +1,131 @@
+import { Equality, StatePath, SubscribeOptions, Subscriber, Unsubscribe } from "./types.js"
+import type { Store } from "./store.js"
+import { readKey, readPath } from "./path.js"
+import { untracked } from "./tracking-context.js"
+import { bindSignal } from "./abort.js"
+
+/** One segment of the path-subscription index. */
+interface PathNode {
+  key: unknown
+  parent: PathNode | null
+  listeners: Set<() => void>
+  children: Map<unknown, PathNode>
+}
+
+interface PathIndex {
+  root: PathNode
+  /** The state the index last compared against. */
+  base: unknown
+  size: number
+  stop: Unsubscribe
+}
+
+// One index per store. It holds a single store subscription, dropped along
+// with the index when the store's last path subscriber leaves.
+const indexes = new WeakMap<Store<unknown>, PathIndex>()
+
+function createPathNode(parent: PathNode | null, key: unknown): PathNode {
+  return { key, parent, listeners: new Set(), children: new Map() }
+}
+
+/**
+ * Visits only the branches whose value changed by reference. An unchanged
+ * subtree is skipped along with every subscription beneath it.
+ */
+function walkPaths(node: PathNode, prev: unknown, next: unknown, fail: (error: unknown) => void): void {
+  if (Object.is(prev, next)) return
+  for (const notify of node.listeners) {
+    try {
+      notify()
+    } catch (err) {
+      fail(err)
+    }
+  }
+  for (const [key, child] of node.children) walkPaths(child, readKey(prev, key), readKey(next, key), fail)
+}
+
+function openIndex(store: Store<unknown>): PathIndex {
+  const existing = indexes.get(store)
+  if (existing) return existing
+  const index: PathIndex = { root: createPathNode(null, undefined), base: untracked(() => store.read()), size: 0, stop: () => {} }
+  index.stop = store.subscribe(state => state, state => {
+    const prev = index.base
+    index.base = state
+    // Every path is visited even if one subscriber throws; the store then
+    // reports the first failure like any other listener's.
+    const failures: unknown[] = []
+    walkPaths(index.root, prev, state, error => failures.push(error))
+    if (failures.length > 0) throw failures[0]
+  }, { name: "subscribePath" })
+  indexes.set(store, index)
+  return index
+}
+
+/**
+ * Subscribes to the value at `path` in `store`. Path subscriptions share one
+ * store subscription and an index keyed by path, so a commit only visits the
+ * branches whose references changed — thousands of them cost nothing when an
+ * unrelated key moves.
+ *
+ * @example
+ * ```ts
+ * subscribePath(table, ["rows", 42, "label"], label => renderCell(42, label))
+ * ```
+ */
+export function subscribePath<T, R = unknown>(
+  store: Store<T>,
+  path: StatePath,
+  subscriber: Subscriber<R>,
+  options?: SubscribeOptions<R>
+): Unsubscribe {
+  if (store.destroyed) throw new Error('Store is destroyed')
+  if (options?.signal?.aborted) return () => {}
+  const eq: Equality<R> = options?.eq || Object.is
+  const index = openIndex(store as Store<unknown>)
+  // Read the store rather than trusting the walk's value: a listener that
+  // writes re-entrantly would otherwise let an outer walk deliver a stale
+  // value after the nested one delivered the fresh one.
+  const read = () => readPath(untracked(() => store.read()), path) as R
+  let prev = read()
+  if (options?.fireImmediately) subscriber(prev)
+
+  const notify = () => {
+    const next = read()
+    if (!eq(prev, next)) {
+      prev = next
+      subscriber(next)
+    }
+  }
+
+  let node = index.root
+  for (const key of path) {
+    let child = node.children.get(key)
+    if (!child) {
+      child = createPathNode(node, key)
+      node.children.set(key, child)
+    }
+    node = child
+  }
+  node.listeners.add(notify)
+  index.size += 1
+
+  let active = true
+  const unsubscribe: Unsubscribe = () => {
+    if (!active) return
+    active = false
+    node.listeners.delete(notify)
+    index.size -= 1
+    // Prune empty branches so later walks never visit dead paths.
+    let empty = node
+    while (empty.parent && empty.listeners.size === 0 && empty.children.size === 0) {
+      empty.parent.children.delete(empty.key)
+      empty = empty.parent
+    }
+    if (index.size === 0) {
+      indexes.delete(store as Store<unknown>)
+      index.stop()
+    }
+  }
+
+  return bindSignal(unsubscribe, options?.signal)
+}
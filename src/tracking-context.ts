@@ -0,0 +1,19 @@
+import type { Tracker } from "./tracking.js"
+
+/**
+ * The `autorun` collecting reads right now, if any. Kept apart from
+ * `tracking.ts` so a store can check it — one field read per commit — without
+ * bundling the tracker itself.
+ */
+export const tracking: { active: Tracker | null } = { active: null }
+
+/** Runs `fn` without recording its store reads on the active `autorun`. */
+export function untracked<R>(fn: () => R): R {
+  const tracker = tracking.active
+  tracking.active = null
+  try {
+    return fn()
+  } finally {
+    tracking.active = tracker
+  }
+}
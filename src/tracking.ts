@@ -0,0 +1,208 @@
+import { readKey } from "./path.js"
+import { tracking } from "./tracking-context.js"
+
+/**
+ * The reads a tracked function made below one value. `keys` holds the
+ * properties it looked at; `whole` means it used the value itself (returned
+ * it, enumerated it, or it was not a plain object or array), so any new
+ * reference counts as a change.
+ */
+export interface DepNode {
+  keys: Map<PropertyKey, DepNode>
+  whole: boolean
+  proxy?: object
+}
+
+export function createDepNode(): DepNode {
+  return { keys: new Map(), whole: false }
+}
+
+// Tracking proxy → the value it wraps and the node recording its reads.
+const targets = new WeakMap<object, { raw: object; node: DepNode }>()
+
+function isTrackable(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) return false
+  if (Array.isArray(value)) return true
+  const proto = Object.getPrototypeOf(value) as unknown
+  return proto === Object.prototype || proto === null
+}
+
+function child(node: DepNode, key: PropertyKey): DepNode {
+  let next = node.keys.get(key)
+  if (!next) {
+    next = createDepNode()
+    node.keys.set(key, next)
+  }
+  return next
+}
+
+function readOnly(): never {
+  throw new Error("Tracked state is read-only — write through the store")
+}
+
+function createProxy(raw: object, node: DepNode): object {
+  const isArray = Array.isArray(raw)
+  // A separate target: frozen state would otherwise forbid returning proxies
+  // for its properties (proxy invariants), same as drafts.
+  const proxy: object = new Proxy(isArray ? [] : {}, {
+    get(_target, prop) {
+      if (typeof prop === "symbol") return Reflect.get(raw, prop, proxy) as unknown
+      const value = Reflect.get(raw, prop, proxy) as unknown
+      // Prototype methods (`map`, `filter`…) run against the proxy, so the
+      // elements they touch are tracked on their own.
+      if (!Object.prototype.hasOwnProperty.call(raw, prop) && typeof value === "function") return value
+      return trackValue(value, child(node, prop))
+    },
+    has(_target, prop) {
+      if (typeof prop !== "symbol") child(node, prop)
+      return prop in raw
+    },
+    ownKeys() {
+      node.whole = true
+      return Reflect.ownKeys(raw)
+    },
+    getOwnPropertyDescriptor(_target, prop) {
+      const desc = Reflect.getOwnPropertyDescriptor(raw, prop)
+      if (!desc) return undefined
+      return {
+        writable: true,
+        configurable: !isArray || prop !== "length",
+        enumerable: desc.enumerable,
+        value: (proxy as Record<PropertyKey, unknown>)[prop],
+      }
+    },
+    getPrototypeOf() {
+      return Object.getPrototypeOf(raw) as object | null
+    },
+    set: readOnly,
+    deleteProperty: readOnly,
+    defineProperty: readOnly,
+    setPrototypeOf: readOnly,
+  })
+  targets.set(proxy, { raw, node })
+  return proxy
+}
+
+/**
+ * Returns a read-tracking view of `value` recording into `node`. Plain
+ * objects and arrays are proxied; anything else is returned as is and
+ * compared by reference.
+ */
+export function trackValue(value: unknown, node: DepNode): unknown {
+  if (isTrackable(value)) {
+    if (!node.proxy) node.proxy = createProxy(value, node)
+    return node.proxy
+  }
+  if ((typeof value === "object" && value !== null) || typeof value === "function") node.whole = true
+  return value
+}
+
+/**
+ * Replaces tracking views inside `value` with the values they wrap, marking
+ * each as used whole. Only containers not shared with `prev` are walked —
+ * anything else came from committed state and cannot hold a view.
+ */
+export function untrackValue<V>(value: V, prev?: unknown): V {
+  return unwrap(value, prev, new Set()) as V
+}
+
+function unwrap(value: unknown, prev: unknown, seen: Set<object>): unknown {
+  if (typeof value !== "object" || value === null || Object.is(value, prev)) return value
+  const target = targets.get(value)
+  if (target) {
+    target.node.whole = true
+    return target.raw
+  }
+  if (!isTrackable(value) || Object.isFrozen(value) || seen.has(value)) return value
+  seen.add(value)
+  const record = value as Record<string, unknown>
+  for (const key of Object.keys(record)) {
+    const next = unwrap(record[key], readKey(prev, key), seen)
+    if (next !== record[key]) record[key] = next
+  }
+  return value
+}
+
+/** True when a read recorded in `node` sees something different in `next`. */
+export function depsChanged(node: DepNode, prev: unknown, next: unknown): boolean {
+  if (Object.is(prev, next)) return false
+  if (node.whole) return true
+  // A read that stopped at an object (`s.user ? … : …`) only cares that it
+  // is still an object; a primitive leaf cares about its value.
+  if (typeof prev !== "object" || prev === null || typeof next !== "object" || next === null) return true
+  if (Array.isArray(prev) !== Array.isArray(next)) return true
+  for (const [key, dep] of node.keys) {
+    if (depsChanged(dep, readKey(prev, key), readKey(next, key))) return true
+  }
+  return false
+}
+
+function mergeDeps(into: DepNode, from: DepNode): void {
+  if (from.whole) into.whole = true
+  for (const [key, dep] of from.keys) mergeDeps(child(into, key), dep)
+}
+
+/** A source whose reads can be tracked — every store qualifies. */
+export interface TrackedSource {
+  read(): unknown
+}
+
+export interface TrackedRead {
+  state: unknown
+  node: DepNode
+}
+
+/** Collects the stores, and the paths within each, read during one run. */
+export class Tracker {
+  readonly reads = new Map<TrackedSource, TrackedRead>()
+
+  private entry(source: TrackedSource, state: unknown): TrackedRead {
+    let entry = this.reads.get(source)
+    // A store written mid-run is tracked from its newest state; the run is
+    // repeated anyway once it sees its own write.
+    if (!entry || !Object.is(entry.state, state)) {
+      entry = { state, node: createDepNode() }
+      this.reads.set(source, entry)
+    }
+    return entry
+  }
+
+  read<S>(source: TrackedSource, state: S): S {
+    return trackValue(state, this.entry(source, state).node) as S
+  }
+
+  /** `untrackValue` for a value written while this run was active. */
+  untrack<V>(value: V, prev: unknown): V {
+    return untrackValue(value, prev)
+  }
+
+  depend(source: TrackedSource, state: unknown, node: DepNode): void {
+    mergeDeps(this.entry(source, state).node, node)
+  }
+
+  /** True when any store read during the run has moved on a tracked path. */
+  stale(): boolean {
+    return runTracked(null, () => {
+      for (const [source, { state, node }] of this.reads) {
+        if (depsChanged(node, state, source.read())) return true
+      }
+      return false
+    })
+  }
+}
+
+/** Records precomputed dependencies (from `autoSelector`) on the active run. */
+export function trackDeps(source: TrackedSource, state: unknown, node: DepNode): void {
+  tracking.active?.depend(source, state, node)
+}
+
+/** Runs `fn` with `tracker` collecting reads; `null` runs it untracked. */
+export function runTracked<R>(tracker: Tracker | null, fn: () => R): R {
+  const prev = tracking.active
+  tracking.active = tracker
+  try {
+    return fn()
+  } finally {
+    tracking.active = prev
+  }
+}
@@ -1,3 +1,6 @@
+import type { SafeError } from "./errors.js"
+import type { observableSymbol } from "./interop.js"
+
 export type DeepReadonly<T> =
   T extends (...args: infer A) => infer R ? (...args: A) => R :
   T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> } :
@@ -13,9 +16,54 @@ export type Subscriber<T> = (value: T) => void
 
 export type Unsubscribe = () => void
 
+/** An observer as RxJS and the TC39 Observable proposal define it. */
+export interface Observer<T> {
+  next?(value: T): void
+  error?(error: unknown): void
+  complete?(): void
+}
+
+export interface ObservableSubscription {
+  unsubscribe(): void
+  readonly closed: boolean
+}
+
+/** An interop observable, found under `observableSymbol`. RxJS `from()` accepts it. */
+export interface Observable<T> {
+  subscribe(observer: Observer<T> | ((value: T) => void)): ObservableSubscription
+  [observableSymbol](): Observable<T>
+}
+
+/** What `fromObservable` reads from: an RxJS or TC39 observable, or anything with `subscribe(observer)`. */
+export interface Subscribable<T> {
+  subscribe(observer: Observer<T>): { unsubscribe(): void }
+}
+
+/**
+ * What `observe()` returns: an observable that can be handed to RxJS `from()`
+ * or read with `for await`. Both emit the current value first, then each change.
+ */
+export interface Streamable<T> extends Observable<T> {
+  /**
+   * Yields the current value, then the latest one each time the loop asks
+   * again: a slow consumer skips intermediate values instead of queueing them.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>
+}
+
+/**
+ * A location inside the state: object keys, array indices or Map keys, from
+ * the root down. `["user", "profile", "name"]` watches `state.user.profile.name`.
+ */
+export type StatePath = ReadonlyArray<unknown>
+
 export interface SubscribeOptions<T> {
   eq?: Equality<T>
   fireImmediately?: boolean
+  /** Identifies this subscriber in `onError` reports. */
+  name?: string
+  /** Unsubscribes when the signal aborts. An already aborted signal subscribes nothing. */
+  signal?: AbortSignal
 }
 
 export type Compute<T> = (prev: DeepReadonly<T>) => T
@@ -28,13 +76,108 @@ export interface StorageLike {
   removeItem(key: string): void
 }
 
+/** A `StorageLike` whose methods may also return promises — IndexedDB, files, native storage. */
+export interface AsyncStorageLike {
+  getItem(key: string): string | null | Promise<string | null>
+  setItem(key: string, value: string): void | Promise<void>
+  removeItem(key: string): void | Promise<void>
+}
+
+/**
+ * Optional metadata describing a write — passed as the last argument of any
+ * mutating store method and handed to plugins, middleware, devtools, history
+ * and `logger()` so timelines read as actions instead of anonymous updates.
+ *
+ * @example
+ * ```ts
+ * cart.update(addItem, item, { action: "cart/addItem", source: "ui" })
+ * ```
+ */
+export interface CommitMeta {
+  /** Action label, e.g. `"cart/addItem"`. */
+  action?: string
+  /** Where the write came from, e.g. `"ui"`, `"socket"`, `"devtools"`. */
+  source?: string
+  /**
+   * Makes `createHistory` record this write as its own undo step, even when
+   * the store notifies it together with other writes.
+   */
+  historyStep?: boolean
+  [key: string]: unknown
+}
+
+/**
+ * One RFC 6902 (JSON Patch) operation. Paths are JSON Pointers (RFC 6901):
+ * `""` is the whole state, `"/user/name"` a nested key, `"/items/0"` an index.
+ */
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown }
+
+/**
+ * Receives the change set of one commit. Applying `patches` to the previous
+ * state yields the new one; applying `inversePatches` to the new state undoes it.
+ */
+export type PatchListener = (
+  patches: ReadonlyArray<PatchOperation>,
+  inversePatches: ReadonlyArray<PatchOperation>,
+  meta?: CommitMeta
+) => void
+
+/**
+ * Schedules a pending notification. Call `flush` when it is time to deliver;
+ * return a function that cancels the scheduled call, if it can be cancelled.
+ */
+export type NotifyScheduler = (flush: () => void) => (() => void) | void
+
+/** Priority lanes for `priorityScheduler`, after `scheduler.postTask`. */
+export type NotifyPriority = "user-blocking" | "user-visible" | "background"
+
 /**
  * How a store delivers change notifications.
  * - `sync` (default): listeners run synchronously inside the mutation call.
  * - `microtask`: notifications are coalesced and flushed once per microtask,
  *   so N synchronous mutations produce a single notification.
+ * - a `NotifyScheduler` function: any other cadence, such as
+ *   `rafScheduler`, `timeoutScheduler` or `priorityScheduler(lane)`.
+ *
+ * Every mode except `sync` coalesces, and `store.flush()` delivers early.
  */
-export type NotifyMode = "sync" | "microtask"
+export type NotifyMode = "sync" | "microtask" | NotifyScheduler
+
+/**
+ * What a store does when a listener or plugin hook throws during delivery.
+ * Set through `reportErrors()`, which reports every failure first, whatever
+ * the policy.
+ * - `isolate`: swallow it and keep delivering.
+ * - `throw-after-delivery` (default): keep delivering to every remaining
+ *   listener and hook, then rethrow the first error from the mutating call.
+ * - `throw-immediately`: rethrow at once, leaving later listeners unnotified.
+ */
+export type StoreErrorPolicy = "isolate" | "throw-after-delivery" | "throw-immediately"
+
+/** `details` of the `SafeError` a store reports for a failed listener or hook. */
+export interface StoreErrorDetails {
+  source: "listener" | "plugin"
+  /** Plugin name, or the `name` subscribe option for listeners. */
+  name?: string
+  /** Plugin hook that threw, e.g. `"onAfterUpdate"`. */
+  hook?: string
+  /** Store version at the time of the failure. */
+  version: number
+  /** The value that was thrown. */
+  cause: unknown
+}
+
+/** Made by `reportErrors()`: reports a store's failures and sets its error policy. */
+export interface StoreErrorReporter {
+  readonly policy: StoreErrorPolicy
+  report(details: StoreErrorDetails, plugins: ReadonlyArray<{ onError?(error: SafeError): void }>): void
+}
 
 /**
  * A plugin observes and can transform a store's lifecycle.
@@ -44,16 +187,29 @@ export interface ExostatePlugin<T> {
   name: string
   /** Runs when the plugin is attached. Return a function to clean up on detach. */
   onInit?(store: PluginHost<T>): void | (() => void)
-  /** Runs before the next state is committed. Return a value to replace it. */
-  onBeforeUpdate?(prev: DeepReadonly<T>, next: T): T | void
+  /**
+   * Runs before the next state is committed. Return a value to replace it,
+   * or throw a `validation_failed` SafeError to reject the commit.
+   */
+  onBeforeUpdate?(prev: DeepReadonly<T>, next: T, meta?: CommitMeta): T | void
   /** Runs after the state is committed, before listeners are notified. */
-  onAfterUpdate?(prev: DeepReadonly<T>, next: T): void
+  onAfterUpdate?(prev: DeepReadonly<T>, next: T, meta?: CommitMeta): void
+  /**
+   * Runs just before a subscriber is handed a changed selected value.
+   * `listener` is the subscriber's `name` option, when it has one.
+   */
+  onNotify?(value: unknown, listener?: string): void
   /** Runs after a listener is added, with the resulting listener count. */
   onSubscribe?(listenerCount: number): void
   /** Runs after a listener is removed, with the resulting listener count. */
   onUnsubscribe?(listenerCount: number): void
   /** Runs when the plugin is torn down (store destroyed or plugins destroyed). */
   onDestroy?(): void
+  /**
+   * Runs when a listener or plugin hook on this store throws during delivery,
+   * if the store reports errors through `reportErrors()`.
+   */
+  onError?(error: SafeError): void
 }
 
 /**
@@ -64,7 +220,7 @@ export interface PluginHost<T> {
   readonly version: number
   read(): T
   snapshot(): DeepReadonly<T>
-  set(next: T): T
+  set(next: T, meta?: CommitMeta): T
 }
 
 export interface StoreOptions<T> {
@@ -89,4 +245,12 @@ export interface StoreOptions<T> {
    * remounts (route transitions, Suspense retries). Default `0`.
    */
   unmountDelay?: number
+  /**
+   * Reports failing listeners and plugin hooks and sets the error policy:
+   * `errors: reportErrors({ onError, policy })`. Without it a failure never
+   * stops delivery, and the first one is rethrown from the write once every
+   * listener has run. A throwing `onBeforeUpdate` is only reported under
+   * `isolate`; otherwise it aborts the write and is thrown from it.
+   */
+  errors?: StoreErrorReporter
 }
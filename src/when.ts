@@ -0,0 +1,84 @@
+import { DeepReadonly } from "./types.js"
+import { createError, toSafeError } from "./errors.js"
+import { sourceOf, toObservable } from "./interop.js"
+
+export interface WhenOptions {
+  /** Gives up when the signal aborts: rejects with an `aborted` SafeError. */
+  signal?: AbortSignal
+  /** Gives up after this many ms: rejects with a `timeout` SafeError. */
+  timeout?: number
+}
+
+/**
+ * Resolves with the value of `source` — a store, a derived value or a
+ * combined view — once `predicate` holds for it, checking the current value
+ * first. Rejects with a SafeError when it gives up: `timeout`, `aborted`, or
+ * `store_destroyed` if the source is destroyed first. Either way nothing is
+ * left subscribed.
+ *
+ * @example
+ * ```ts
+ * const { user } = await when(auth, s => s.status === "ready", { timeout: 5000 })
+ * ```
+ */
+export function when<T>(
+  source: { read(): T },
+  predicate: (value: DeepReadonly<T>) => boolean,
+  options?: WhenOptions
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const signal = options?.signal
+    if (signal?.aborted) {
+      reject(createError("aborted", "when() was aborted", { reason: signal.reason as unknown }))
+      return
+    }
+
+    // Checked here: subscribing to a destroyed store throws a plain Error.
+    if ("destroyed" in source && source.destroyed === true) {
+      reject(createError("store_destroyed", "when() gave up: the store was destroyed"))
+      return
+    }
+
+    let settled = false
+    let subscription: { unsubscribe(): void } | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const onAbort = () => {
+      settle(() => reject(createError("aborted", "when() was aborted", { reason: signal!.reason as unknown })))
+    }
+    const settle = (done: () => void) => {
+      if (settled) return
+      settled = true
+      subscription?.unsubscribe()
+      if (timer !== null) clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+      done()
+    }
+
+    subscription = toObservable(sourceOf(source)).subscribe({
+      next: value => {
+        // A throwing predicate rejects rather than breaking the store's delivery.
+        try {
+          if (predicate(value as DeepReadonly<T>)) settle(() => resolve(value))
+        } catch (err) {
+          settle(() => reject(err instanceof Error ? err : toSafeError(err)))
+        }
+      },
+      complete: () => {
+        settle(() => reject(createError("store_destroyed", "when() gave up: the store was destroyed")))
+      },
+    })
+    // The current value already matched, inside `subscribe`.
+    if (settled) {
+      subscription.unsubscribe()
+      return
+    }
+
+    if (options?.timeout !== undefined) {
+      const ms = options.timeout
+      timer = setTimeout(() => {
+        settle(() => reject(createError("timeout", `when() timed out after ${ms}ms`, { timeout: ms })))
+      }, ms)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
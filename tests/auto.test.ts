@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, freeze } from "../src"
+import { autoSelector, autorun } from "../src/reactive.js"
+import { mutate } from "../src/draft.js"
+
+type S = {
+  cart: { items: string[]; note: string }
+  fees: { shipping: number }
+  user: { name: string }
+  byId: Map<string, number>
+}
+
+function initial(): S {
+  return {
+    cart: { items: ["a"], note: "" },
+    fees: { shipping: 5 },
+    user: { name: "x" },
+    byId: new Map([["a", 1]]),
+  }
+}
+
+describe("autoSelector()", () => {
+  it("recomputes only when a path it read changes", () => {
+    const store = createStore<S>(initial())
+    const selector = vi.fn((s: S) => s.cart.items.length + s.fees.shipping)
+    const total = autoSelector(store, selector)
+    const listener = vi.fn()
+    total.subscribe(listener)
+    expect(total.read()).toBe(6)
+
+    store.patch({ user: { name: "y" } })
+    mutate(store, d => { d.cart.note = "gift" })
+    expect(selector).toHaveBeenCalledTimes(1)
+    expect(listener).not.toHaveBeenCalled()
+
+    mutate(store, d => { d.cart.items.push("b") })
+    expect(selector).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledWith(7)
+    expect(total.read()).toBe(7)
+  })
+
+  it("does not notify when a recompute yields the same value", () => {
+    const store = createStore<S>(initial())
+    const listener = vi.fn()
+    autoSelector(store, s => s.fees.shipping > 0).subscribe(listener)
+    mutate(store, d => { d.fees.shipping = 10 })
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it("returns raw state, compared by reference, when the selector returns a subtree", () => {
+    const store = createStore<S>(initial())
+    const cart = autoSelector(store, s => s.cart)
+    const listener = vi.fn()
+    cart.subscribe(listener)
+    expect(cart.read()).toBe(store.read().cart)
+
+    mutate(store, d => { d.cart.note = "gift" })
+    expect(listener).toHaveBeenCalledWith(store.read().cart)
+  })
+
+  it("compares Maps by reference and follows reads into arrays", () => {
+    const store = createStore<S>(initial())
+    const a = autoSelector(store, s => s.byId.get("a"))
+    const first = autoSelector(store, s => s.cart.items.map(i => i.toUpperCase())[0])
+    const onA = vi.fn()
+    const onFirst = vi.fn()
+    a.subscribe(onA)
+    first.subscribe(onFirst)
+
+    mutate(store, d => { d.byId.set("a", 2) })
+    expect(onA).toHaveBeenCalledWith(2)
+    mutate(store, d => { d.cart.items[0] = "z" })
+    expect(onFirst).toHaveBeenCalledWith("Z")
+  })
+
+  it("works on frozen state and rejects writes", () => {
+    const store = createStore<S>(initial(), { plugins: [freeze()] })
+    store.set(initial())
+    expect(autoSelector(store, s => s.cart.items[0]).read()).toBe("a")
+    const writer = autoSelector(store, s => { (s as { user: { name: string } }).user.name = "w"; return 0 })
+    expect(() => writer.read()).toThrow("read-only")
+  })
+})
+
+describe("autorun()", () => {
+  it("re-runs only when a path read in any store changes", () => {
+    const user = createStore({ name: "a", age: 1 })
+    const inbox = createStore({ unread: 0, archived: 0 })
+    const seen: string[] = []
+    const stop = autorun(() => {
+      seen.push(`${user.read().name}:${inbox.read().unread}`)
+    })
+    expect(seen).toEqual(["a:0"])
+
+    user.patch({ age: 2 })
+    inbox.patch({ archived: 3 })
+    expect(seen).toEqual(["a:0"])
+
+    inbox.patch({ unread: 1 })
+    user.patch({ name: "b" })
+    expect(seen).toEqual(["a:0", "a:1", "b:1"])
+
+    stop()
+    user.patch({ name: "c" })
+    expect(seen).toHaveLength(3)
+    expect((user as unknown as { listeners: Set<unknown> }).listeners.size).toBe(0)
+  })
+
+  it("tracks only the branch that ran", () => {
+    const flags = createStore({ showA: true })
+    const data = createStore({ a: 1, b: 1 })
+    const effect = vi.fn(() => {
+      void (flags.read().showA ? data.read().a : data.read().b)
+    })
+    autorun(effect)
+
+    data.patch({ b: 2 })
+    expect(effect).toHaveBeenCalledTimes(1)
+    flags.set({ showA: false })
+    expect(effect).toHaveBeenCalledTimes(2)
+    data.patch({ a: 2 })
+    expect(effect).toHaveBeenCalledTimes(2)
+    data.patch({ b: 3 })
+    expect(effect).toHaveBeenCalledTimes(3)
+  })
+
+  it("unwraps tracked values written into another store", () => {
+    const source = createStore({ user: { name: "a" } })
+    const mirror = createStore<{ user: { name: string } | null }>({ user: null })
+    autorun(() => { mirror.set({ user: source.read().user }) })
+    expect(mirror.read().user).toBe(source.read().user)
+  })
+
+  it("settles effects that write to state they read", () => {
+    const store = createStore({ n: 0, doubled: 0 })
+    autorun(() => {
+      const { n, doubled } = store.read()
+      if (doubled !== n * 2) store.patch({ doubled: n * 2 })
+    })
+    expect(store.read().doubled).toBe(0)
+    store.patch({ n: 4 })
+    expect(store.read().doubled).toBe(8)
+  })
+
+  it("depends on exactly the paths an autoSelector read", () => {
+    const store = createStore<S>(initial())
+    const shipping = autoSelector(store, s => s.fees.shipping)
+    const effect = vi.fn(() => { void shipping.read() })
+    autorun(effect)
+
+    store.patch({ user: { name: "y" } })
+    expect(effect).toHaveBeenCalledTimes(1)
+    mutate(store, d => { d.fees.shipping = 1 })
+    expect(effect).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not track reads made by listeners it triggers", () => {
+    const a = createStore({ n: 0 })
+    const b = createStore({ n: 0 })
+    a.subscribe(s => s.n, () => { void b.read().n })
+    const effect = vi.fn(() => { a.set({ n: 1 }) })
+    autorun(effect)
+    b.set({ n: 5 })
+    expect(effect).toHaveBeenCalledTimes(1)
+  })
+})
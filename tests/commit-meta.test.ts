@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  createStore, withMiddleware, logger, createHistory, connectReduxDevTools,
+  devtoolsMiddleware, createMemoryConnection,
+} from "../src"
+import type { CommitMeta } from "../src"
+import { mutate } from "../src/draft.js"
+
+type S = { count: number }
+
+const add = (prev: Readonly<S>, by: number): S => ({ count: prev.count + by })
+
+describe("commit metadata", () => {
+  it("reaches onBeforeUpdate and onAfterUpdate from every mutating method", () => {
+    const store = createStore<S>({ count: 0 })
+    const seen: Array<CommitMeta | undefined> = []
+    store.use({
+      name: "spy",
+      onBeforeUpdate: (_prev, _next, meta) => { seen.push(meta) },
+      onAfterUpdate: (_prev, _next, meta) => { seen.push(meta) },
+    })
+
+    store.set({ count: 1 }, { action: "set" })
+    store.update(add, 1, { action: "update" })
+    store.patch({ count: 3 }, { action: "patch" })
+    store.compute(p => ({ count: p.count + 1 }), { action: "compute" })
+    store.batch(apply => apply(add, 1), { action: "batch" })
+    mutate(store, d => { d.count += 1 }, { action: "mutate" })
+    store.set({ count: 0 })
+
+    expect(seen.map(m => m?.action)).toEqual([
+      "set", "set", "update", "update", "patch", "patch",
+      "compute", "compute", "batch", "batch", "mutate", "mutate",
+      undefined, undefined,
+    ])
+  })
+
+  it("is exposed on middleware before/after contexts", () => {
+    const store = createStore<S>({ count: 0 })
+    const labels: string[] = []
+    const wrapped = withMiddleware(store, [{
+      before: (op, ctx) => { labels.push(`before ${op} ${ctx.meta?.action}`) },
+      after: (op, ctx) => { labels.push(`after ${op} ${ctx.meta?.source}`) },
+    }])
+    wrapped.update(add, 2, { action: "cart/addItem", source: "ui" })
+    expect(labels).toEqual(["before update cart/addItem", "after update ui"])
+  })
+
+  it("labels devtoolsMiddleware events", () => {
+    const store = createStore<S>({ count: 0 })
+    const { conn, events } = createMemoryConnection()
+    const wrapped = withMiddleware(store, [devtoolsMiddleware(conn)])
+    wrapped.set({ count: 1 }, { action: "counter/reset" })
+    expect(events[0]!.meta?.action).toBe("counter/reset")
+  })
+
+  it("heads logger groups with the action label", () => {
+    const sink = { log: vi.fn(), group: vi.fn(), groupCollapsed: vi.fn(), groupEnd: vi.fn() }
+    const store = createStore<S>({ count: 0 }, { plugins: [logger({ name: "L", console: sink })] })
+    store.set({ count: 1 }, { action: "counter/inc" })
+    store.set({ count: 2 })
+    expect(sink.group.mock.calls.map(c => c[0] as string)).toEqual(["[L] counter/inc", "[L] state updated"])
+    expect(sink.log).toHaveBeenCalledWith("meta:", { action: "counter/inc" })
+  })
+
+  it("is recorded alongside history entries", () => {
+    const store = createStore<S>({ count: 0 })
+    const history = createHistory(store)
+    history.attach()
+    store.set({ count: 1 }, { action: "first" })
+    store.set({ count: 2 })
+    expect(history.metas().map(m => m?.action)).toEqual([undefined, "first", undefined])
+
+    const after = vi.fn()
+    store.use({ name: "spy", onAfterUpdate: after })
+    history.undo()
+    expect((after.mock.calls[0]![2] as CommitMeta).action).toBe("history/undo")
+    history.detach()
+  })
+})
+
+describe("connectReduxDevTools labels", () => {
+  const globals = globalThis as Record<string, unknown>
+  afterEach(() => { delete globals["__REDUX_DEVTOOLS_EXTENSION__"] })
+
+  it("sends the action label instead of a generic update", () => {
+    const send = vi.fn()
+    let listener: ((m: { type: string; payload?: unknown; state?: string }) => void) | undefined
+    globals["__REDUX_DEVTOOLS_EXTENSION__"] = {
+      connect: () => ({
+        init: vi.fn(),
+        send,
+        subscribe: (l: typeof listener) => { listener = l; return () => {} },
+        unsubscribe: vi.fn(),
+      }),
+    }
+    const store = createStore<S>({ count: 0 })
+    const disconnect = connectReduxDevTools(store)
+
+    store.set({ count: 1 }, { action: "counter/inc" })
+    store.set({ count: 2 })
+    expect(send.mock.calls.map(c => (c[0] as { type: string }).type)).toEqual(["counter/inc", "update (v2)"])
+
+    // Time travel from the extension is applied but not echoed back.
+    listener!({ type: "DISPATCH", payload: { type: "JUMP_TO_STATE" }, state: JSON.stringify({ count: 0 }) })
+    expect(store.read()).toEqual({ count: 0 })
+    expect(send).toHaveBeenCalledTimes(2)
+    disconnect()
+  })
+})
@@ -1,5 +1,7 @@
-import { describe, it, expect, vi } from "vitest"
-import { defineStore } from "../src/define-store.js"
+import { describe, it, expect, expectTypeOf, vi } from "vitest"
+import { defineStore, createSlices } from "../src/define-store.js"
+import type { SliceCreator } from "../src/define-store.js"
+import { createHistory } from "../src/history.js"
 
 interface CounterState {
   count: number
@@ -74,3 +76,159 @@ describe("defineStore", () => {
     expect(store.read().check()).toBe("changed")
   })
 })
+
+interface CartSlice {
+  items: string[]
+  add: (item: string) => void
+  checkout: () => string
+}
+
+interface UserSlice {
+  userId: string
+  login: (id: string) => void
+}
+
+type App = CartSlice & UserSlice
+
+const cartSlice: SliceCreator<CartSlice, App> = (set, get) => ({
+  items: [],
+  add: (item) => set((s) => ({ ...s, items: [...s.items, item] })),
+  checkout: () => `${get().userId}:${get().items.join(",")}`,
+})
+
+const userSlice: SliceCreator<UserSlice, App> = (set) => ({
+  userId: "anon",
+  login: (id) => set({ userId: id }),
+})
+
+describe("createSlices", () => {
+  it("merges slices into one typed store", () => {
+    const store = createSlices(cartSlice, userSlice)
+    expectTypeOf(store.read()).toEqualTypeOf<CartSlice & UserSlice>()
+
+    store.read().login("u1")
+    store.read().add("apple")
+    expect(store.read().items).toEqual(["apple"])
+    expect(store.read().userId).toBe("u1")
+  })
+
+  it("lets a slice read its siblings through get", () => {
+    const store = createSlices(cartSlice, userSlice)
+    store.read().login("u2")
+    store.read().add("pear")
+    expect(store.read().checkout()).toBe("u2:pear")
+  })
+
+  it("scopes each slice's set to its own keys", () => {
+    const rogue: SliceCreator<{ hijack: () => void }> = (set) => ({
+      hijack: () => set({ userId: "evil" } as never),
+    })
+    const store = createSlices(userSlice, rogue)
+    expect(() => store.read().hijack()).toThrow('cannot set "userId"')
+    expect(store.read().userId).toBe("anon")
+  })
+
+  it("hands the function form only the slice's own keys", () => {
+    const seen: string[][] = []
+    const probe: SliceCreator<{ n: number; bump: () => void }> = (set) => ({
+      n: 0,
+      bump: () => set((s) => {
+        seen.push(Object.keys(s))
+        return { ...s, n: s.n + 1 }
+      }),
+    })
+    const store = createSlices(probe, userSlice)
+    store.read().bump()
+    expect(seen).toEqual([["n", "bump"]])
+    expect(store.read().n).toBe(1)
+  })
+
+  it("rejects slices that declare the same key", () => {
+    const other: SliceCreator<{ userId: number }> = () => ({ userId: 1 })
+    expect(() => createSlices(userSlice, other)).toThrow('"userId" is declared by more than one slice')
+  })
+})
+
+interface Item { name: string; price: number }
+
+function defineCart() {
+  return defineStore({
+    id: "cart",
+    state: () => ({ items: [] as Item[], discount: 0 }),
+    getters: {
+      total: (s) => s.items.reduce((n, i) => n + i.price, 0) - s.discount,
+      count: (s) => s.items.length,
+    },
+    actions: {
+      add(item: Item) {
+        this.patch(s => ({ items: [...s.items, item] }))
+      },
+      addTwice(item: Item) {
+        this.add(item)
+        this.add(item)
+        return this.count
+      },
+      async applyCode(code: string) {
+        await Promise.resolve()
+        this.patch({ discount: code.length })
+      },
+    },
+  })
+}
+
+describe("defineStore options form", () => {
+  it("exposes the Store API with typed getters and actions", () => {
+    const cart = defineCart()
+    expectTypeOf(cart.total).toEqualTypeOf<number>()
+    expectTypeOf(cart.add).parameters.toEqualTypeOf<[Item]>()
+
+    cart.add({ name: "a", price: 3 })
+    expect(cart.read().items).toHaveLength(1)
+    expect(cart.total).toBe(3)
+    expect(cart.addTwice({ name: "b", price: 1 })).toBe(3)
+    expect(cart.total).toBe(5)
+    expect(cart.version).toBe(3)
+  })
+
+  it("memoizes getters between commits", () => {
+    const total = vi.fn((s: { n: number }) => s.n * 2)
+    const store = defineStore({ state: () => ({ n: 1 }), getters: { total } })
+    expect(store.total).toBe(2)
+    expect(store.total).toBe(2)
+    expect(total).toHaveBeenCalledTimes(1)
+    store.set({ n: 2 })
+    expect(store.total).toBe(4)
+    expect(total).toHaveBeenCalledTimes(2)
+  })
+
+  it("labels writes made by actions, across awaits too", async () => {
+    const cart = defineCart()
+    const actions: unknown[] = []
+    cart.use({ name: "spy", onAfterUpdate: (_p, _n, meta) => { actions.push(meta?.action) } })
+
+    cart.add({ name: "a", price: 1 })
+    cart.patch({ discount: 0 })
+    cart.patch({ discount: 0 }, { action: "manual" })
+    await cart.applyCode("SAVE")
+    expect(actions).toEqual(["cart/add", undefined, "manual", "cart/applyCode"])
+  })
+
+  it("works with helpers that take a Store", () => {
+    const cart = defineCart()
+    const history = createHistory(cart)
+    history.attach()
+    cart.add({ name: "a", price: 1 })
+    expect(history.metas()[1]).toEqual({ action: "cart/add" })
+    history.undo()
+    expect(cart.count).toBe(0)
+  })
+
+  it("rejects getters or actions that shadow store methods", () => {
+    expect(() => defineStore({ state: () => ({}), actions: { set() {} } })).toThrow('"set" is already defined')
+    expect(() => defineStore({
+      state: () => ({ n: 0 }),
+      getters: { twice: (s) => s.n },
+      actions: { twice() {} },
+    })).toThrow('"twice"')
+  })
+})
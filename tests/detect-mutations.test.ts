@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createStore, detectMutations } from "../src"
+import type { StateMutation } from "../src"
+import { mutate } from "../src/draft.js"
+
+type S = {
+  items: string[]
+  user: { name: string; tags: Set<string> }
+  meta: { updated: Date }
+  lookup: Map<string, { n: number }>
+}
+
+function initial(): S {
+  return {
+    items: ["a"],
+    user: { name: "x", tags: new Set(["t"]) },
+    meta: { updated: new Date(0) },
+    lookup: new Map([["k", { n: 1 }]]),
+  }
+}
+
+function setup(options?: Parameters<typeof detectMutations>[0]) {
+  const found: StateMutation[] = []
+  const store = createStore<S>(initial(), {
+    plugins: [detectMutations<S>({ ...options, onMutation: m => { found.push(m) } })],
+  })
+  return { store, found }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("detectMutations()", () => {
+  it("reports a reducer that pushes onto committed state", () => {
+    const { store, found } = setup()
+    store.update(prev => {
+      (prev.items as string[]).push("b")
+      return prev as S
+    }, undefined)
+
+    expect(found).toHaveLength(2)
+    expect(found.map(m => m.path)).toEqual([["items", "length"], ["items", "1"]])
+    expect(found[1]).toMatchObject({ prev: undefined, next: "b", source: "state" })
+    expect(found[1]!.stack).toContain("detect-mutations.test")
+  })
+
+  it("stays quiet for immutable updates and reports each mutation once", () => {
+    const { store, found } = setup()
+    mutate(store, d => { d.items.push("b") })
+    store.patch({ user: { ...store.read().user, name: "y" } })
+    expect(found).toEqual([])
+
+    ;(store.read().user as { name: string }).name = "z"
+    store.patch({ items: [] })
+    store.patch({ items: ["c"] })
+    expect(found).toHaveLength(1)
+    expect(found[0]).toMatchObject({ path: ["user", "name"], prev: "y", next: "z" })
+  })
+
+  it("checks Sets, Maps and Dates", () => {
+    const { store, found } = setup()
+    const state = store.read()
+    state.user.tags.add("u")
+    state.lookup.get("k")!.n = 2
+    state.meta.updated.setTime(5)
+    store.set(initial())
+
+    expect(found.map(m => m.path)).toEqual([
+      ["user", "tags"],
+      ["meta", "updated"],
+      ["lookup", "k", "n"],
+    ])
+  })
+
+  it("checks on a timer between commits", () => {
+    vi.useFakeTimers()
+    const { store, found } = setup({ interval: 100 })
+    ;(store.read().items as string[])[0] = "mutated"
+    vi.advanceTimersByTime(100)
+    expect(found).toHaveLength(1)
+    expect(found[0]!.path).toEqual(["items", "0"])
+    store.destroy()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it("optionally checks values handed to subscribers", () => {
+    const { store, found } = setup({ checkSelectors: true })
+    store.subscribe(s => s.items.filter(Boolean), list => { list.reverse() }, { name: "sorter" })
+    mutate(store, d => { d.items.push("b") })
+    store.patch({ items: [] })
+
+    expect(found.map(m => m.path)).toEqual([["0"], ["1"]])
+    expect(found[0]).toMatchObject({ source: "selector", listener: "sorter", prev: "a", next: "b" })
+  })
+
+  it("does not check selector results unless asked to", () => {
+    const { store, found } = setup()
+    store.subscribe(s => s.items.filter(Boolean), list => { list.reverse() })
+    mutate(store, d => { d.items.push("b") })
+    store.patch({ items: [] })
+    expect(found).toEqual([])
+  })
+})
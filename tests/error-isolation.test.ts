@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, isSafeError, reportErrors } from "../src"
+import { subscribePath } from "../src/paths.js"
+import type { SafeError, StoreErrorDetails } from "../src"
+import { subscribePatches } from "../src/patches.js"
+
+const boom = new Error("boom")
+
+describe("listener error isolation", () => {
+  it("keeps notifying after a listener throws, then rethrows the first error", () => {
+    const onError = vi.fn()
+    const store = createStore({ n: 0 }, { errors: reportErrors({ onError }) })
+    const seen: number[] = []
+    store.subscribe(s => s.n, () => { throw boom }, { name: "broken" })
+    store.subscribe(s => s.n, n => { seen.push(n) })
+    subscribePath(store, ["n"], n => { seen.push(n as number) })
+
+    expect(() => store.set({ n: 1 })).toThrow(boom)
+    expect(store.read()).toEqual({ n: 1 })
+    expect(seen).toEqual([1, 1])
+
+    const error = onError.mock.calls[0]![0] as SafeError
+    expect(isSafeError(error) && error.code).toBe("listener_failed")
+    expect(error.message).toBe('Listener "broken" threw: boom')
+    expect(error.details).toEqual({ source: "listener", name: "broken", version: 1, cause: boom })
+  })
+
+  it("reports nothing without reportErrors, and still rethrows after delivery", () => {
+    const onError = vi.fn()
+    const store = createStore({ n: 0 })
+    store.use({ name: "listening", onError })
+    const later = vi.fn()
+    store.subscribe(s => s.n, () => { throw boom })
+    store.subscribe(s => s.n, later)
+
+    expect(() => store.set({ n: 1 })).toThrow(boom)
+    expect(later).toHaveBeenCalledWith(1)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it("isolate swallows the error once reported", () => {
+    const onError = vi.fn()
+    const store = createStore({ n: 0 }, { errors: reportErrors({ onError, policy: "isolate" }) })
+    const later = vi.fn()
+    store.subscribe(s => s.n, () => { throw boom })
+    store.subscribe(s => s.n, later)
+
+    expect(() => store.set({ n: 1 })).not.toThrow()
+    expect(later).toHaveBeenCalledWith(1)
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it("throw-immediately stops at the failing listener", () => {
+    const onError = vi.fn()
+    const store = createStore({ n: 0 }, { errors: reportErrors({ onError, policy: "throw-immediately" }) })
+    const later = vi.fn()
+    store.subscribe(s => s.n, () => { throw boom })
+    store.subscribe(s => s.n, later)
+
+    expect(() => store.set({ n: 1 })).toThrow(boom)
+    expect(later).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it("holds the error until the outermost delivery when listeners write re-entrantly", () => {
+    const store = createStore({ n: 0, echo: 0 })
+    const echoes: number[] = []
+    store.subscribe(s => s.n, () => { throw boom })
+    store.subscribe(s => s.n, n => { store.patch({ echo: n }) })
+    store.subscribe(s => s.echo, e => { echoes.push(e) })
+
+    expect(() => store.patch({ n: 1 })).toThrow(boom)
+    expect(store.read().echo).toBe(1)
+    expect(echoes).toEqual([1])
+    // The held error is cleared once thrown.
+    expect(() => store.patch({ echo: 2 })).not.toThrow()
+  })
+
+  it("rethrows from flush() in microtask mode", () => {
+    const store = createStore({ n: 0 }, { notify: "microtask" })
+    const later = vi.fn()
+    store.subscribe(s => s.n, () => { throw boom })
+    store.subscribe(s => s.n, later)
+
+    expect(() => store.set({ n: 1 })).not.toThrow()
+    expect(() => store.flush()).toThrow(boom)
+    expect(later).toHaveBeenCalledWith(1)
+  })
+
+  it("isolates patch listeners", () => {
+    const onError = vi.fn()
+    const store = createStore({ n: 0 }, { errors: reportErrors({ onError, policy: "isolate" }) })
+    const later = vi.fn()
+    subscribePatches(store, () => { throw boom })
+    subscribePatches(store, later)
+    store.set({ n: 1 })
+    expect(later).toHaveBeenCalledTimes(1)
+    expect((onError.mock.calls[0]![0] as SafeError).details).toMatchObject({ source: "plugin", name: "patches" })
+  })
+})
+
+describe("plugin error isolation", () => {
+  it("reports hook failures to plugin onError hooks and commits anyway", () => {
+    const reported: SafeError[] = []
+    const store = createStore({ n: 0 }, { errors: reportErrors({ policy: "isolate" }) })
+    const after = vi.fn()
+    store.use({ name: "bad", onBeforeUpdate: () => { throw boom }, onAfterUpdate: () => { throw boom } })
+    store.use({ name: "good", onAfterUpdate: after, onError: e => { reported.push(e) } })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    store.set({ n: 1 })
+    expect(store.read()).toEqual({ n: 1 })
+    expect(after).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(1)
+    expect(reported.map(e => e.code)).toEqual(["plugin_failed", "plugin_failed"])
+    expect(reported.map(e => (e.details as StoreErrorDetails).hook)).toEqual(["onBeforeUpdate", "onAfterUpdate"])
+    expect(reported[1]!.message).toBe('Plugin "bad" threw in onAfterUpdate: boom')
+    expect((reported[0]!.details as StoreErrorDetails).version).toBe(0)
+  })
+
+  it("aborts the commit when onBeforeUpdate throws, unless the store isolates failures", () => {
+    for (const policy of [undefined, "throw-after-delivery", "throw-immediately"] as const) {
+      const onError = vi.fn()
+      const store = createStore({ n: 0 }, { errors: reportErrors({ policy, onError }) })
+      const after = vi.fn()
+      const listener = vi.fn()
+      store.use({ name: "bad", onBeforeUpdate: () => { throw boom }, onAfterUpdate: after })
+      store.subscribe(s => s.n, listener)
+
+      expect(() => store.set({ n: 1 })).toThrow(boom)
+      expect(store.read()).toEqual({ n: 0 })
+      expect(store.version).toBe(0)
+      expect(after).not.toHaveBeenCalled()
+      expect(listener).not.toHaveBeenCalled()
+      expect(onError).not.toHaveBeenCalled()
+    }
+  })
+
+  it("ignores errors thrown by onError handlers", () => {
+    const store = createStore({ n: 0 }, {
+      errors: reportErrors({ policy: "isolate", onError: () => { throw new Error("handler") } }),
+    })
+    store.use({ name: "reporter", onError: () => { throw new Error("hook") } })
+    store.subscribe(s => s.n, () => { throw boom })
+    expect(() => store.set({ n: 1 })).not.toThrow()
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, createHistory, persistLocal } from "../src"
+import { focus, subscribePath } from "../src/paths.js"
+import { mutate } from "../src/draft.js"
+import { subscribePatches } from "../src/patches.js"
+
+type Address = { street: string; city: string }
+type S = {
+  user: { name: string; address: Address }
+  settings: { theme: string }
+  todos: Array<{ text: string; done: boolean }>
+}
+
+function initial(): S {
+  return {
+    user: { name: "a", address: { street: "Main", city: "Oslo" } },
+    settings: { theme: "light" },
+    todos: [{ text: "x", done: false }],
+  }
+}
+
+class MemoryStorage {
+  private map = new Map<string, string>()
+  getItem(key: string) { return this.map.has(key) ? this.map.get(key)! : null }
+  setItem(key: string, value: string) { this.map.set(key, value) }
+  removeItem(key: string) { this.map.delete(key) }
+}
+
+describe("focus()", () => {
+  it("reads and writes a path slice through the parent", () => {
+    const app = createStore<S>(initial())
+    const prev = app.read()
+    const address = focus<S, Address>(app, ["user", "address"])
+
+    expect(address.read()).toBe(prev.user.address)
+    address.patch({ city: "Bergen" }, { action: "address/move" })
+
+    const next = app.read()
+    expect(next.user.address).toEqual({ street: "Main", city: "Bergen" })
+    expect(next.user.name).toBe("a")
+    expect(next.settings).toBe(prev.settings)
+    expect(prev.user.address.city).toBe("Oslo")
+    expect(app.version).toBe(1)
+  })
+
+  it("accepts a dotted path and supports every write method", () => {
+    const app = createStore<S>(initial())
+    const theme = focus<S, string>(app, "settings.theme")
+    theme.set("dark")
+    theme.update((t, suffix: string) => t + suffix, "!")
+    theme.compute(t => t.toUpperCase())
+    expect(app.read().settings.theme).toBe("DARK!")
+
+    const todos = focus<S, S["todos"]>(app, "todos")
+    mutate(todos, d => { d[0]!.done = true; d.push({ text: "y", done: false }) })
+    todos.batch(apply => {
+      apply((list, text: string) => [...list, { text, done: false }], "z")
+      apply(list => list.slice(1), undefined)
+    })
+    expect(app.read().todos.map(t => t.text)).toEqual(["y", "z"])
+  })
+
+  it("works with a getter and setter pair", () => {
+    const app = createStore<S>(initial())
+    const name = focus(app, s => s.user.name, (s, value) => ({ ...s, user: { ...s.user, name: value } }))
+    name.set("b")
+    expect(app.read().user.name).toBe("b")
+    expect(() => focus(app, (s: S) => s.user)).toThrow("setter")
+  })
+
+  it("notifies only when the slice changes", () => {
+    const app = createStore<S>(initial())
+    const address = focus<S, Address>(app, ["user", "address"])
+    const whole = vi.fn()
+    const city = vi.fn()
+    address.subscribe(a => a, whole)
+    subscribePath(address, ["city"], city)
+
+    app.patch({ settings: { theme: "dark" } })
+    expect(whole).not.toHaveBeenCalled()
+    expect(city).not.toHaveBeenCalled()
+
+    address.patch({ street: "Side" })
+    expect(whole).toHaveBeenCalledTimes(1)
+    expect(city).not.toHaveBeenCalled()
+
+    address.patch({ city: "Bergen" })
+    expect(city).toHaveBeenCalledWith("Bergen")
+  })
+
+  it("emits patches relative to the slice", () => {
+    const app = createStore<S>(initial())
+    const address = focus<S, Address>(app, "user.address")
+    const listener = vi.fn()
+    subscribePatches(address, listener)
+
+    app.patch({ settings: { theme: "dark" } })
+    address.patch({ city: "Bergen" })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0]![0]).toEqual([{ op: "replace", path: "/city", value: "Bergen" }])
+  })
+
+  it("runs slice plugins only for commits that touch the slice", () => {
+    const app = createStore<S>(initial())
+    const theme = focus<S, string>(app, "settings.theme")
+    const after = vi.fn()
+    const detach = theme.use({
+      name: "clamp",
+      onBeforeUpdate: (_prev, next) => next === "neon" ? "dark" : undefined,
+      onAfterUpdate: after,
+    })
+    expect(theme.plugins().map(p => p.name)).toEqual(["clamp"])
+
+    app.patch({ todos: [] })
+    expect(after).not.toHaveBeenCalled()
+
+    theme.set("neon")
+    expect(app.read().settings.theme).toBe("dark")
+    expect(after).toHaveBeenCalledWith("light", "dark", undefined)
+
+    detach()
+    expect(app.plugins()).toEqual([])
+  })
+
+  it("lets createHistory and persistLocal work on a slice", () => {
+    const app = createStore<S>(initial())
+    const settings = focus<S, S["settings"]>(app, "settings")
+    const history = createHistory(settings)
+    history.attach()
+    const storage = new MemoryStorage()
+    persistLocal(settings, "settings", storage)
+
+    settings.set({ theme: "dark" })
+    app.patch({ todos: [] })
+    settings.set({ theme: "blue" })
+    expect(history.size()).toBe(3)
+    expect(storage.getItem("settings")).toBe('{"theme":"blue"}')
+
+    history.undo()
+    expect(app.read().settings.theme).toBe("dark")
+    expect(app.read().todos).toEqual([])
+  })
+
+  it("destroy() releases the lens without touching the parent", () => {
+    const app = createStore<S>(initial())
+    const address = focus<S, Address>(app, "user.address")
+    const onDestroy = vi.fn()
+    address.subscribe(a => a.city, () => {})
+    address.use({ name: "spy", onDestroy })
+
+    address.destroy()
+    expect(address.destroyed).toBe(true)
+    expect(onDestroy).toHaveBeenCalledTimes(1)
+    expect((app as unknown as { listeners: Set<unknown> }).listeners.size).toBe(0)
+    expect(app.plugins()).toEqual([])
+    expect(app.destroyed).toBe(false)
+    expect(() => address.set({ street: "", city: "" })).toThrow("Store is destroyed")
+  })
+})
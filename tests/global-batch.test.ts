@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, batch, combineStores } from "../src"
+
+describe("batch()", () => {
+  it("defers notifications on every store until the callback returns", () => {
+    const a = createStore({ n: 0 })
+    const b = createStore({ s: "x" })
+    const events: string[] = []
+    a.subscribe(s => s.n, n => events.push(`a:${n}`))
+    b.subscribe(s => s.s, s => events.push(`b:${s}`))
+
+    const out = batch(() => {
+      a.set({ n: 1 })
+      a.set({ n: 2 })
+      b.set({ s: "y" })
+      expect(events).toEqual([])
+      expect(a.read().n).toBe(2) // writes are visible inside the batch
+      return "done"
+    })
+
+    expect(out).toBe("done")
+    expect(events).toEqual(["a:2", "b:y"])
+  })
+
+  it("nests, releasing only when the outermost batch exits", () => {
+    const store = createStore({ n: 0 })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    batch(() => {
+      batch(() => { store.set({ n: 1 }) })
+      expect(listener).not.toHaveBeenCalled()
+      store.set({ n: 2 })
+    })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(2)
+  })
+
+  it("gives combineStores subscribers one consistent value", () => {
+    const a = createStore({ n: 0 })
+    const b = createStore({ n: 0 })
+    const c = createStore({ n: 0 })
+    const combined = combineStores({ a, b, c })
+    const seen: number[][] = []
+    combined.subscribe(v => seen.push([v.a.n, v.b.n, v.c.n]))
+
+    batch(() => {
+      a.set({ n: 1 })
+      b.set({ n: 1 })
+      c.set({ n: 1 })
+    })
+    expect(seen).toEqual([[1, 1, 1]])
+  })
+
+  it("still notifies for committed writes when the callback throws", () => {
+    const store = createStore({ n: 0 })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    expect(() => batch(() => {
+      store.set({ n: 1 })
+      throw new Error("boom")
+    })).toThrow("boom")
+    expect(listener).toHaveBeenCalledWith(1)
+
+    store.set({ n: 2 })
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it("hands microtask stores back to their scheduler", async () => {
+    const store = createStore({ n: 0 }, { notify: "microtask" })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    batch(() => { store.set({ n: 1 }) })
+    expect(listener).not.toHaveBeenCalled()
+    await Promise.resolve()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it("keeps delivering to other stores when a listener throws", () => {
+    const a = createStore({ n: 0 })
+    const b = createStore({ n: 0 })
+    const later = vi.fn()
+    a.subscribe(s => s.n, () => { throw new Error("boom") })
+    b.subscribe(s => s.n, later)
+
+    expect(() => batch(() => {
+      a.set({ n: 1 })
+      b.set({ n: 1 })
+    })).toThrow("boom")
+    expect(later).toHaveBeenCalledWith(1)
+  })
+})
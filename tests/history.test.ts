@@ -57,5 +57,39 @@ describe("history utilities", () => {
     expect(res2?.count).toBe(3)
     expect(history.pointer()).toBe(1)
   })
-})
+  it("records writes the store notifies together as one undo step", async () => {
+    const store = createStore<S>({ count: 0, label: "a" }, { notify: "microtask" })
+    const history = createHistory(store)
+    history.attach()
+    store.patch({ count: 1 })
+    store.patch({ label: "b" }, { action: "relabel" })
+    await Promise.resolve()
+    expect(history.size()).toBe(2)
+    expect(history.metas()[1]).toEqual({ action: "relabel" })
 
+    history.undo()
+    await Promise.resolve()
+    expect(store.read()).toEqual({ count: 0, label: "a" })
+    expect(history.size()).toBe(2)
+    history.detach()
+  })
+
+  it("records a write as its own step when its meta asks for one", async () => {
+    const store = createStore<S>({ count: 0, label: "a" }, { notify: "microtask" })
+    const history = createHistory(store)
+    history.attach()
+    store.patch({ count: 1 }, { historyStep: true })
+    store.patch({ count: 2 })
+    await Promise.resolve()
+    expect(history.entries().map(entry => entry.count)).toEqual([0, 1, 2])
+    history.detach()
+  })
+
+  it("stays out of store.plugins()", () => {
+    const store = createStore<S>({ count: 0, label: "a" })
+    const history = createHistory(store)
+    history.attach()
+    expect(store.plugins()).toEqual([])
+    history.detach()
+  })
+})
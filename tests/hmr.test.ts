@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import React from "react"
+import { render, screen, act } from "@testing-library/react"
+import { createStore, defineStore, acceptHMR, getStore, registerAs, listStores } from "../src"
+import { subscribePath } from "../src/paths.js"
+import type { HotContext, ExostatePlugin, Store } from "../src"
+import { useSelector } from "../src/react"
+import { subscribePatches } from "../src/patches.js"
+
+/** A stand-in for `import.meta.hot` that can replay a module run. */
+function createHot() {
+  let data: Record<string, unknown> = {}
+  let disposers: Array<(data: Record<string, unknown>) => void> = []
+  const hot: HotContext = {
+    get data() { return data },
+    accept: vi.fn(),
+    dispose: callback => { disposers.push(callback) },
+  }
+  return {
+    hot,
+    /** Disposes the current run, as the bundler does before re-running the module. */
+    reload() {
+      const next: Record<string, unknown> = {}
+      for (const dispose of disposers) dispose(next)
+      disposers = []
+      data = next
+    },
+  }
+}
+
+type S = { count: number; label: string }
+
+afterEach(() => {
+  for (const { store } of listStores()) store.destroy()
+})
+
+describe("acceptHMR()", () => {
+  it("carries state and listeners over to the re-created store", () => {
+    const { hot, reload } = createHot()
+    const runModule = () => {
+      const store = createStore<S>({ count: 0, label: "initial" }, { plugins: [registerAs("counter")] })
+      acceptHMR(store, hot)
+      return store
+    }
+
+    const first = runModule()
+    expect(hot.accept).toHaveBeenCalled()
+    const listener = vi.fn()
+    const path = vi.fn()
+    const patches = vi.fn()
+    const unsubscribe = first.subscribe(s => s.count, listener)
+    subscribePath(first, ["label"], path)
+    subscribePatches(first, patches)
+    first.set({ count: 1, label: "edited" })
+    listener.mockClear()
+    path.mockClear()
+    patches.mockClear()
+
+    reload()
+    const second = runModule()
+    expect(second.read()).toEqual({ count: 1, label: "edited" })
+    expect(getStore("counter")).toBe(second)
+    expect(listener).not.toHaveBeenCalled()
+
+    second.patch({ count: 2, label: "again" })
+    expect(listener).toHaveBeenCalledWith(2)
+    expect(path).toHaveBeenCalledWith("again")
+    expect(patches).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    second.patch({ count: 3 })
+    expect(listener).toHaveBeenCalledTimes(1)
+    // Only the shared path-subscription listener is left.
+    expect((second as unknown as { listeners: Set<unknown> }).listeners.size).toBe(1)
+  })
+
+  it("destroys the old store but forwards calls made through it", () => {
+    const { hot, reload } = createHot()
+    const first = createStore({ n: 0 })
+    acceptHMR(first, hot, "n")
+    const internals = first as unknown as { registrations: unknown[]; listeners: Set<unknown> }
+    first.subscribe(s => s.n, () => {})
+
+    reload()
+    const second = createStore({ n: 100 })
+    acceptHMR(second, hot, "n")
+
+    // The old store's fields now read through to the new one's.
+    expect(internals.listeners).toBe((second as unknown as typeof internals).listeners)
+    expect(internals.listeners.size).toBe(1)
+    expect(first.destroyed).toBe(false)
+    first.set({ n: 5 })
+    expect(second.read().n).toBe(5)
+    expect(first.read()).toBe(second.read())
+    expect(first.version).toBe(second.version)
+  })
+
+  it("moves plugins the new store lacks and keeps the ones it has", () => {
+    const { hot, reload } = createHot()
+    const moved: ExostatePlugin<S> = { name: "devtools", onInit: vi.fn(() => cleanup), onDestroy: vi.fn() }
+    const cleanup = vi.fn()
+    const oldOwn: ExostatePlugin<S> = { name: "logger", onDestroy: vi.fn() }
+    const newOwn: ExostatePlugin<S> = { name: "logger" }
+
+    const first = createStore<S>({ count: 0, label: "" }, { plugins: [oldOwn] })
+    acceptHMR(first, hot)
+    const detach = first.use(moved)
+
+    reload()
+    const second = createStore<S>({ count: 0, label: "" }, { plugins: [newOwn] })
+    acceptHMR(second, hot)
+
+    expect(second.plugins()).toEqual([newOwn, moved])
+    expect(moved.onInit).toHaveBeenCalledTimes(2)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+    expect(moved.onDestroy).not.toHaveBeenCalled()
+    expect(oldOwn.onDestroy).toHaveBeenCalledTimes(1)
+
+    detach()
+    expect(second.plugins()).toEqual([newOwn])
+    expect(cleanup).toHaveBeenCalledTimes(2)
+  })
+
+  it("works with defineStore stores", () => {
+    const { hot, reload } = createHot()
+    const runModule = () => {
+      const store = defineStore({
+        state: () => ({ n: 0 }),
+        getters: { doubled: s => s.n * 2 },
+        actions: { inc() { this.patch({ n: this.read().n + 1 }) } },
+        options: { name: "counter" },
+      })
+      acceptHMR(store, hot)
+      return store
+    }
+
+    const first = runModule()
+    first.inc()
+    reload()
+    const second = runModule()
+
+    expect(second.read().n).toBe(1)
+    expect(getStore("counter")).toBe(second)
+    first.inc()
+    expect(second.doubled).toBe(4)
+  })
+
+  it("does nothing without a hot context", () => {
+    const store = createStore(1)
+    expect(() => acceptHMR(store, undefined)).not.toThrow()
+  })
+})
+
+describe("acceptHMR() with exostate/react", () => {
+  it("keeps mounted components live after the store module re-runs", () => {
+    const { hot, reload } = createHot()
+    const runModule = () => {
+      const store = createStore<S>({ count: 0, label: "" })
+      acceptHMR(store, hot)
+      return store
+    }
+    const first = runModule()
+    function Count({ store }: { store: Store<S> }) {
+      return React.createElement("span", { "data-testid": "count" }, String(useSelector(store, s => s.count)))
+    }
+    render(React.createElement(Count, { store: first }))
+    act(() => { first.patch({ count: 1 }) })
+
+    reload()
+    const second = runModule()
+    act(() => { second.patch({ count: 2 }) })
+    expect(screen.getByTestId("count").textContent).toBe("2")
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, freeze, withMiddleware } from "../src"
+import { mutate, produce } from "../src/draft.js"
+
+type S = {
+  user: { name: string; tags: string[] }
+  settings: { theme: string }
+  byId: Map<string, { done: boolean }>
+  seen: Set<string>
+}
+
+function initial(): S {
+  return {
+    user: { name: "a", tags: ["x"] },
+    settings: { theme: "light" },
+    byId: new Map([["t1", { done: false }], ["t2", { done: false }]]),
+    seen: new Set(["t1"]),
+  }
+}
+
+describe("mutate()", () => {
+  it("commits a new state without touching the previous one", () => {
+    const store = createStore<S>(initial())
+    const prev = store.read()
+    mutate(store, d => { d.user.name = "b" })
+
+    expect(store.read().user.name).toBe("b")
+    expect(prev.user.name).toBe("a")
+    expect(store.version).toBe(1)
+  })
+
+  it("shares every untouched subtree", () => {
+    const store = createStore<S>(initial())
+    const prev = store.read()
+    mutate(store, d => { d.user.tags.push("y") })
+
+    const next = store.read()
+    expect(next).not.toBe(prev)
+    expect(next.user).not.toBe(prev.user)
+    expect(next.user.tags).toEqual(["x", "y"])
+    expect(next.settings).toBe(prev.settings)
+    expect(next.byId).toBe(prev.byId)
+    expect(next.seen).toBe(prev.seen)
+  })
+
+  it("returns the same reference when the recipe writes nothing", () => {
+    const store = createStore<S>(initial())
+    const prev = store.read()
+    mutate(store, d => { void d.user.name; d.settings.theme = "light" })
+    expect(store.read()).toBe(prev)
+  })
+
+  it("drafts Map values and records Set membership changes", () => {
+    const store = createStore<S>(initial())
+    const prev = store.read()
+    mutate(store, d => {
+      d.byId.get("t1")!.done = true
+      d.seen.add("t2")
+    })
+
+    const next = store.read()
+    expect(next.byId.get("t1")).toEqual({ done: true })
+    expect(next.byId.get("t2")).toBe(prev.byId.get("t2"))
+    expect(prev.byId.get("t1")!.done).toBe(false)
+    expect([...next.seen]).toEqual(["t1", "t2"])
+    expect(prev.seen.has("t2")).toBe(false)
+  })
+
+  it("supports array methods that move drafted elements", () => {
+    const base = { rows: [{ id: 1 }, { id: 2 }, { id: 3 }] }
+    const next = produce(base, d => {
+      d.rows.splice(0, 1)
+      d.rows[0]!.id = 20
+    })
+    expect(next.rows).toEqual([{ id: 20 }, { id: 3 }])
+    expect(next.rows[1]).toBe(base.rows[2])
+    expect(base.rows).toHaveLength(3)
+  })
+
+  it("runs through plugin hooks like every other write", () => {
+    const store = createStore<S>(initial())
+    const before = vi.fn((_prev: unknown, next: S) => next)
+    const after = vi.fn()
+    store.use({ name: "spy", onBeforeUpdate: before, onAfterUpdate: after })
+    mutate(store, d => { d.settings.theme = "dark" })
+
+    expect(before).toHaveBeenCalledTimes(1)
+    expect(after).toHaveBeenCalledTimes(1)
+    expect((after.mock.calls[0]![1] as S).settings.theme).toBe("dark")
+  })
+
+  it("works on state frozen by the freeze() plugin", () => {
+    const store = createStore<S>(initial(), { plugins: [freeze()] })
+    store.set(initial())
+    mutate(store, d => { d.user.tags.push("z") })
+    expect(store.read().user.tags).toEqual(["x", "z"])
+    expect(Object.isFrozen(store.read().user.tags)).toBe(true)
+  })
+
+  it("revokes drafts once the recipe returns", () => {
+    const store = createStore<S>(initial())
+    let leaked: { name: string } | undefined
+    mutate(store, d => { leaked = d.user })
+    expect(() => leaked!.name).toThrow()
+  })
+
+  it("is announced to middleware as an update", () => {
+    const store = createStore<S>(initial())
+    const ops: string[] = []
+    const wrapped = withMiddleware(store, [{ after: op => { ops.push(op) } }])
+    mutate(wrapped, d => { d.user.name = "c" })
+    expect(ops).toEqual(["update"])
+    expect(store.read().user.name).toBe("c")
+  })
+
+  it("throws on a destroyed store", () => {
+    const store = createStore<S>(initial())
+    store.destroy()
+    expect(() => mutate(store, d => { d.user.name = "x" })).toThrow("Store is destroyed")
+  })
+})
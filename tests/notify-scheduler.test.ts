@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createStore, priorityScheduler, rafScheduler, timeoutScheduler } from "../src"
+import type { NotifyScheduler } from "../src"
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe("notify schedulers", () => {
+  it("timeoutScheduler coalesces writes onto the next macrotask", () => {
+    vi.useFakeTimers()
+    const store = createStore({ n: 0 }, { notify: timeoutScheduler })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    store.set({ n: 1 })
+    store.set({ n: 2 })
+    expect(listener).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(0)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(2)
+  })
+
+  it("rafScheduler delivers at most once per frame", () => {
+    const frames: Array<() => void> = []
+    vi.stubGlobal("requestAnimationFrame", (fn: () => void) => frames.push(fn))
+    vi.stubGlobal("cancelAnimationFrame", vi.fn())
+    const store = createStore({ n: 0 }, { notify: rafScheduler })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    store.set({ n: 1 })
+    store.set({ n: 2 })
+    expect(frames).toHaveLength(1)
+    frames[0]!()
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    store.set({ n: 3 })
+    expect(frames).toHaveLength(2)
+  })
+
+  it("rafScheduler falls back to a timer when there are no frames", () => {
+    vi.useFakeTimers()
+    vi.stubGlobal("requestAnimationFrame", undefined)
+    const store = createStore({ n: 0 }, { notify: rafScheduler })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+    store.set({ n: 1 })
+    vi.advanceTimersByTime(16)
+    expect(listener).toHaveBeenCalledWith(1)
+  })
+
+  it("priorityScheduler posts tasks through scheduler.postTask", async () => {
+    const postTask = vi.fn((fn: () => void) => Promise.resolve().then(fn))
+    vi.stubGlobal("scheduler", { postTask })
+    const store = createStore({ n: 0 }, { notify: priorityScheduler("background") })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    store.set({ n: 1 })
+    expect(postTask.mock.calls[0]![1]).toMatchObject({ priority: "background" })
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(listener).toHaveBeenCalledWith(1)
+  })
+
+  it("accepts a custom scheduler and cancels it on flush()", () => {
+    const cancel = vi.fn()
+    let pending: (() => void) | null = null
+    const custom: NotifyScheduler = flush => {
+      pending = flush
+      return cancel
+    }
+    const store = createStore({ n: 0 }, { notify: custom })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+
+    store.set({ n: 1 })
+    expect(pending).not.toBeNull()
+    store.flush()
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(cancel).toHaveBeenCalledTimes(1)
+
+    // A late call from a scheduler that ignored cancellation is harmless.
+    pending!()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it("destroy() cancels a scheduled notification", () => {
+    vi.useFakeTimers()
+    const store = createStore({ n: 0 }, { notify: timeoutScheduler })
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+    store.set({ n: 1 })
+    store.destroy()
+    expect(vi.getTimerCount()).toBe(0)
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from "vitest"
+import {
+  createStore,
+  derive,
+  combineStores,
+  withMiddleware,
+  fromObservable,
+  isSafeError,
+  observe,
+  observableSymbol,
+} from "../src"
+import { focus } from "../src/paths.js"
+import type { Observer, SafeError, Subscribable } from "../src"
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// The string key RxJS checks when `Symbol.observable` isn't polyfilled.
+function interop<T>(source: object): Subscribable<T> {
+  return (source as { "@@observable"(): Subscribable<T> })["@@observable"]()
+}
+
+/** A minimal hot observable, standing in for an RxJS Subject. */
+function subject<T>() {
+  const observers = new Set<Observer<T>>()
+  return {
+    observers,
+    subscribe(observer: Observer<T>) {
+      observers.add(observer)
+      return { unsubscribe: () => { observers.delete(observer) } }
+    },
+    next(value: T) { for (const o of [...observers]) o.next?.(value) },
+    error(err: unknown) { for (const o of [...observers]) o.error?.(err) },
+  }
+}
+
+describe("async iteration", () => {
+  it("yields the current value, then each change, and unsubscribes on break", async () => {
+    const onUnsubscribe = vi.fn()
+    const store = createStore({ n: 0 }, { onUnsubscribe })
+    const seen: number[] = []
+    const loop = (async () => {
+      for await (const state of observe(store)) {
+        seen.push(state.n)
+        if (state.n === 2) break
+      }
+    })()
+
+    await tick()
+    store.set({ n: 1 })
+    await tick()
+    store.set({ n: 2 })
+    await loop
+
+    expect(seen).toEqual([0, 1, 2])
+    expect(onUnsubscribe).toHaveBeenLastCalledWith(store, 0)
+  })
+
+  it("conflates changes a slow consumer missed to the latest value", async () => {
+    const store = createStore(0)
+    const iterator = observe(store)[Symbol.asyncIterator]()
+    expect(await iterator.next()).toEqual({ value: 0, done: false })
+
+    store.set(1)
+    store.set(2)
+    store.set(3)
+    expect(await iterator.next()).toEqual({ value: 3, done: false })
+    await iterator.return!()
+  })
+
+  it("finishes when the store is destroyed", async () => {
+    const store = createStore("a")
+    const seen: string[] = []
+    const loop = (async () => {
+      for await (const value of observe(store)) seen.push(value)
+    })()
+    await tick()
+    store.destroy()
+    await loop
+    expect(seen).toEqual(["a"])
+  })
+
+  it("works on derived values, focused slices and combined stores", async () => {
+    const app = createStore({ user: { name: "a" }, count: 1 })
+    const name = derive(app, s => s.user.name)
+    const user = focus<{ user: { name: string }; count: number }, { name: string }>(app, "user")
+    const both = combineStores({ app, other: createStore(true) })
+
+    const names = observe(name)[Symbol.asyncIterator]()
+    const users = observe(user)[Symbol.asyncIterator]()
+    const combined = observe(both)[Symbol.asyncIterator]()
+    await names.next()
+    await users.next()
+    await combined.next()
+
+    app.patch({ user: { name: "b" } })
+    expect((await names.next()).value).toBe("b")
+    expect((await users.next()).value).toEqual({ name: "b" })
+    expect((await combined.next()).value!.app.user.name).toBe("b")
+
+    both.destroy()
+    expect(await combined.next()).toEqual({ value: undefined, done: true })
+    app.destroy()
+    expect(await names.next()).toEqual({ value: undefined, done: true })
+    expect(await users.next()).toEqual({ value: undefined, done: true })
+  })
+})
+
+describe("observe() as an observable", () => {
+  it("emits the current value then changes, and completes on destroy", () => {
+    const store = withMiddleware(createStore({ n: 0 }), [])
+    const next = vi.fn()
+    const complete = vi.fn()
+    const observable = interop<{ n: number }>(observe(store))
+    const subscription = observable.subscribe({ next, complete }) as { unsubscribe(): void; closed: boolean }
+
+    store.set({ n: 1 })
+    expect(next.mock.calls).toEqual([[{ n: 0 }], [{ n: 1 }]])
+    store.destroy()
+    expect(complete).toHaveBeenCalledTimes(1)
+    expect(subscription.closed).toBe(true)
+  })
+
+  it("stops emitting once unsubscribed", () => {
+    const onUnsubscribe = vi.fn()
+    const store = createStore(0, { onUnsubscribe })
+    const next = vi.fn()
+    interop<number>(observe(store)).subscribe({ next }).unsubscribe()
+    store.set(1)
+    expect(next.mock.calls).toEqual([[0]])
+    expect(onUnsubscribe).toHaveBeenLastCalledWith(store, 0)
+  })
+
+  it("answers to observableSymbol and can be subscribed to directly", () => {
+    const store = createStore(0)
+    const observable = observe(store)
+    expect(observable[observableSymbol]()).toBe(observable)
+    const next = vi.fn()
+    observable.subscribe(next)
+    store.set(1)
+    expect(next.mock.calls).toEqual([[0], [1]])
+  })
+
+  it("leaves the store itself free of interop keys and its plugin list untouched", () => {
+    const store = createStore(0)
+    expect(observableSymbol in store).toBe(false)
+    expect(Symbol.asyncIterator in store).toBe(false)
+    const subscription = observe(store).subscribe(() => {})
+    expect(store.plugins()).toEqual([])
+    subscription.unsubscribe()
+  })
+
+  it("rejects values it cannot stream", () => {
+    expect(() => observe({ read: () => 1 })).toThrow("observe() expects a store, a derived value or a combined view")
+  })
+})
+
+describe("fromObservable()", () => {
+  it("holds the initial value, then follows the source until destroyed", () => {
+    const source = subject<number>()
+    const store = fromObservable(source, 0)
+    expect(store.read()).toBe(0)
+
+    source.next(5)
+    expect(store.read()).toBe(5)
+
+    store.destroy()
+    expect(source.observers.size).toBe(0)
+  })
+
+  it("accepts interop observables, including an observed store", () => {
+    const upstream = createStore({ n: 1 })
+    const copy = fromObservable(observe(upstream), { n: 0 })
+    expect(copy.read()).toEqual({ n: 1 })
+    upstream.set({ n: 2 })
+    expect(copy.read()).toEqual({ n: 2 })
+  })
+
+  it("reports a failing source as source_failed and keeps the last value", () => {
+    const errors: SafeError[] = []
+    const source = subject<number>()
+    const store = fromObservable(source, 0, { onError: e => { errors.push(e) } })
+    source.next(1)
+    source.error(new Error("socket closed"))
+    source.next(2)
+
+    expect(store.read()).toBe(1)
+    expect(errors).toHaveLength(1)
+    expect(isSafeError(errors[0]) && errors[0].code).toBe("source_failed")
+    expect(errors[0]!.message).toBe("Observable source failed: socket closed")
+  })
+})
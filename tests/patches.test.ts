@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, isSafeError } from "../src"
+import type { PatchOperation } from "../src"
+import { mutate } from "../src/draft.js"
+import { diffPatches, applyPatch, applyPatches, subscribePatches } from "../src/patches.js"
+
+describe("diffPatches", () => {
+  it("emits RFC 6902 operations for changed paths only", () => {
+    const shared = { big: [1, 2, 3] }
+    const prev = { user: { name: "a", age: 1 }, shared, list: [1, 2] }
+    const next = { user: { name: "b", age: 1 }, shared, list: [1, 2, 3], extra: true }
+    const { patches } = diffPatches(prev, next)
+    expect(patches).toEqual([
+      { op: "replace", path: "/user/name", value: "b" },
+      { op: "add", path: "/list/2", value: 3 },
+      { op: "add", path: "/extra", value: true },
+    ])
+  })
+
+  it("inverse patches undo the forward patches", () => {
+    const prev = { a: { b: 1 }, list: [1, 2, 3, 4], gone: "x" }
+    const next = { a: { b: 2 }, list: [1], added: [] }
+    const { patches, inversePatches } = diffPatches(prev, next)
+    expect(applyPatch(prev, patches)).toEqual(next)
+    expect(applyPatch(next, inversePatches)).toEqual(prev)
+  })
+
+  it("escapes JSON Pointer segments", () => {
+    const { patches } = diffPatches({}, { "a/b~c": 1 })
+    expect(patches).toEqual([{ op: "add", path: "/a~1b~0c", value: 1 }])
+  })
+})
+
+describe("applyPatch", () => {
+  it("does not modify the input and shares untouched subtrees", () => {
+    const base = { a: { n: 1 }, b: { n: 2 } }
+    const out = applyPatch(base, [{ op: "replace", path: "/a/n", value: 5 }])
+    expect(out).toEqual({ a: { n: 5 }, b: { n: 2 } })
+    expect(base.a.n).toBe(1)
+    expect(out.b).toBe(base.b)
+  })
+
+  it("supports move, copy, test and array append", () => {
+    const out = applyPatch({ from: [1], to: [] as number[], flag: true }, [
+      { op: "test", path: "/flag", value: true },
+      { op: "add", path: "/to/-", value: 9 },
+      { op: "copy", from: "/from/0", path: "/to/0" },
+      { op: "move", from: "/flag", path: "/moved" },
+    ])
+    expect(out).toEqual({ from: [1], to: [1, 9], moved: true })
+  })
+
+  it("throws a SafeError when a test fails or a path is missing", () => {
+    const ops: PatchOperation[] = [{ op: "test", path: "/n", value: 2 }]
+    try {
+      applyPatch({ n: 1 }, ops)
+      expect.unreachable()
+    } catch (err) {
+      expect(isSafeError(err) && err.code).toBe("patch_test_failed")
+    }
+    expect(() => applyPatch({ n: 1 }, [{ op: "remove", path: "/missing" }])).toThrow(/does not exist/)
+  })
+})
+
+describe("store patch emission", () => {
+  it("delivers each commit's patches and meta until unsubscribed", () => {
+    const store = createStore({ count: 0, label: "a" })
+    const listener = vi.fn()
+    const unsub = subscribePatches(store, listener)
+    expect(store.plugins().map(p => p.name)).toEqual(["patches"])
+
+    store.patch({ count: 1 }, { action: "count/set" })
+    expect(listener).toHaveBeenCalledWith(
+      [{ op: "replace", path: "/count", value: 1 }],
+      [{ op: "replace", path: "/count", value: 0 }],
+      { action: "count/set" }
+    )
+
+    unsub()
+    store.patch({ count: 2 })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.plugins()).toEqual([])
+  })
+
+  it("delivers every commit even when notifications are coalesced", () => {
+    const store = createStore({ n: 0 }, { notify: "microtask" })
+    const seen: number[] = []
+    subscribePatches(store, p => seen.push((p[0] as { value: number }).value))
+    store.set({ n: 1 })
+    store.set({ n: 2 })
+    expect(seen).toEqual([1, 2])
+  })
+
+  it("skips commits that change nothing", () => {
+    const store = createStore({ n: 0 })
+    const listener = vi.fn()
+    subscribePatches(store, listener)
+    store.set(store.read())
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it("applyPatches replays a change set through the write path", () => {
+    const source = createStore({ todos: [{ text: "a", done: false }] })
+    const mirror = createStore({ todos: [{ text: "a", done: false }] })
+    const after = vi.fn()
+    mirror.use({ name: "spy", onAfterUpdate: after })
+    subscribePatches(source, patches => { applyPatches(mirror, patches) })
+
+    mutate(source, d => { d.todos[0]!.done = true; d.todos.push({ text: "b", done: false }) })
+
+    expect(mirror.read()).toEqual(source.read())
+    expect(after).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest"
 import { createStore } from "../src"
+import type { StandardSchemaV1 } from "../src"
 import { persistFs } from "../src/node/index.js"
 import { promises as fs } from "node:fs"
 import os from "node:os"
@@ -30,3 +31,28 @@ describe("persistFs", () => {
   })
 })
 
+
+describe("persistFs with a schema", () => {
+  it("awaits an async Standard Schema and ignores stored state that fails it", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "exostate-"))
+    const file = path.join(dir, "state.json")
+    const schema: StandardSchemaV1<unknown, S> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value: unknown) => typeof (value as S).label === "string"
+          ? { value: value as S }
+          : { issues: [{ message: "Expected a label" }] },
+      },
+    }
+
+    await fs.writeFile(file, JSON.stringify({ count: 7 }), "utf8")
+    const store = createStore<S>({ count: 0, label: "a" })
+    ;(await persistFs(store, file, { schema })).detach()
+    expect(store.read()).toEqual({ count: 0, label: "a" })
+
+    await fs.writeFile(file, JSON.stringify({ count: 7, label: "seed" }), "utf8")
+    ;(await persistFs(store, file, { schema })).detach()
+    expect(store.read()).toEqual({ count: 7, label: "seed" })
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { createStore } from "../src"
 import { persistLocal } from "../src"
+import type { StandardSchemaV1 } from "../src"
 
 type S = { count: number; label: string }
 
@@ -30,5 +31,24 @@ describe("persistLocal", () => {
     const raw2 = storage.getItem("ex/1")
     expect(JSON.parse(raw2!)).toEqual({ count: 15, label: "seed" })
   })
-})
 
+  it("loads state once an asynchronous Standard Schema passes it, unless the store moved on", async () => {
+    const storage = new MemoryStorage()
+    storage.setItem("ex/async", JSON.stringify({ count: 1, label: "b" }))
+    const schema: StandardSchemaV1<unknown, S> = {
+      "~standard": { version: 1, vendor: "test", validate: value => Promise.resolve({ value: value as S }) },
+    }
+
+    const store = createStore<S>({ count: 0, label: "a" })
+    persistLocal(store, "ex/async", storage, { schema })
+    expect(store.read()).toEqual({ count: 0, label: "a" })
+    await Promise.resolve()
+    expect(store.read()).toEqual({ count: 1, label: "b" })
+
+    const written = createStore<S>({ count: 0, label: "a" })
+    persistLocal(written, "ex/async", storage, { schema })
+    written.set({ count: 7, label: "fresh" })
+    await Promise.resolve()
+    expect(written.read()).toEqual({ count: 7, label: "fresh" })
+  })
+})
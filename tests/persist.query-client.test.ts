@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest"
+import { QueryClient, persistQueryClient } from "../src"
+import type { AsyncStorageLike, PersistedClient, StorageLike } from "../src"
+import { createFsStorage } from "../src/node/index.js"
+import { promises as fs } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms))
+
+function memoryStorage(): StorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>()
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value) },
+    removeItem: key => { data.delete(key) },
+  }
+}
+
+function stored(storage: { data: Map<string, string> }): PersistedClient {
+  return JSON.parse(storage.data.get("exostate:query-client")!) as PersistedClient
+}
+
+async function warmClient(storage: StorageLike | AsyncStorageLike, options?: { buster?: string }) {
+  const client = new QueryClient()
+  const persister = await persistQueryClient(client, { storage, throttleMs: 0, ...options })
+  await client.fetchQuery({ queryKey: ["user", 1], queryFn: () => Promise.resolve({ name: "Ada" }) })
+  await persister.flush()
+  persister.detach()
+  client.clear()
+}
+
+describe("persistQueryClient", () => {
+  it("writes successful queries and restores them on the next start", async () => {
+    const storage = memoryStorage()
+    await warmClient(storage)
+    expect(stored(storage).clientState.queries).toEqual([
+      expect.objectContaining({ queryKey: ["user", 1], data: { name: "Ada" } }),
+    ])
+
+    const client = new QueryClient()
+    const persister = await persistQueryClient(client, { storage })
+    expect(persister.restored).toBe(true)
+    expect(client.getQueryData(["user", 1])).toEqual({ name: "Ada" })
+
+    const queryFn = vi.fn().mockResolvedValue({ name: "Ada L." })
+    client.watch({ queryKey: ["user", 1], queryFn, staleTime: 60_000 })
+    await tick()
+    expect(queryFn).not.toHaveBeenCalled()
+    persister.detach()
+    client.clear()
+  })
+
+  it("discards a cache older than maxAge or written under another buster", async () => {
+    const storage = memoryStorage()
+    await warmClient(storage, { buster: "v1" })
+
+    const otherBuild = new QueryClient()
+    expect((await persistQueryClient(otherBuild, { storage, buster: "v2" })).restored).toBe(false)
+    expect(otherBuild.getQueryData(["user", 1])).toBeUndefined()
+    expect(storage.data.size).toBe(0)
+
+    await warmClient(storage)
+    const persisted = stored(storage)
+    storage.setItem("exostate:query-client", JSON.stringify({ ...persisted, timestamp: persisted.timestamp - 10_000 }))
+    const client = new QueryClient()
+    expect((await persistQueryClient(client, { storage, maxAge: 5_000 })).restored).toBe(false)
+    expect(storage.data.size).toBe(0)
+  })
+
+  it("drops single queries older than maxAge, measured with the client's clock", async () => {
+    const storage = memoryStorage()
+    let time = 0
+    const writer = new QueryClient({ now: () => time })
+    const persister = await persistQueryClient(writer, { storage, throttleMs: 0 })
+    writer.setQueryData(["old"], 1)
+    time = 9_000
+    writer.setQueryData(["new"], 2)
+    await persister.flush()
+    persister.detach()
+    writer.clear()
+    expect(stored(storage).timestamp).toBe(9_000)
+
+    const reader = new QueryClient({ now: () => 12_000 })
+    expect((await persistQueryClient(reader, { storage, maxAge: 5_000 })).restored).toBe(true)
+    expect(reader.getQueryData(["old"])).toBeUndefined()
+    expect(reader.getQueryData(["new"])).toBe(2)
+    reader.clear()
+  })
+
+  it("throttles writes and flushes the last one on detach", async () => {
+    vi.useFakeTimers()
+    try {
+      const storage = memoryStorage()
+      const setItem = vi.spyOn(storage, "setItem")
+      const client = new QueryClient()
+      const persister = await persistQueryClient(client, { storage, throttleMs: 1000 })
+
+      client.setQueryData(["a"], 1)
+      client.setQueryData(["b"], 2)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(setItem).toHaveBeenCalledTimes(1)
+
+      client.setQueryData(["a"], 3)
+      persister.detach()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(setItem).toHaveBeenCalledTimes(2)
+      expect(stored(storage).clientState.queries.map(q => q.data)).toEqual([3, 2])
+      client.clear()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("leaves out queries rejected by dehydrateOptions and never overwrites fresher data", async () => {
+    const storage = memoryStorage()
+    const client = new QueryClient()
+    const persister = await persistQueryClient(client, {
+      storage,
+      throttleMs: 0,
+      dehydrateOptions: { shouldDehydrateQuery: query => query.queryKey[0] !== "secret" },
+    })
+    client.setQueryData(["secret"], "token")
+    client.setQueryData(["todos"], ["old"])
+    await persister.flush()
+    expect(stored(storage).clientState.queries.map(q => q.queryKey)).toEqual([["todos"]])
+    persister.detach()
+    client.clear()
+
+    const next = new QueryClient()
+    await tick(1)
+    next.setQueryData(["todos"], ["new"])
+    await persistQueryClient(next, { storage })
+    expect(next.getQueryData(["todos"])).toEqual(["new"])
+    next.clear()
+  })
+
+  it("works with async storage such as files through createFsStorage", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "exostate-"))
+    const storage = createFsStorage(dir)
+    await warmClient(storage)
+    expect(await fs.readdir(dir)).toEqual(["exostate_query-client.json"])
+
+    const client = new QueryClient()
+    const persister = await persistQueryClient(client, { storage })
+    expect(client.getQueryData(["user", 1])).toEqual({ name: "Ada" })
+    persister.detach()
+    client.clear()
+  })
+})
@@ -3,6 +3,11 @@ import * as exostate from "../src/index.js"
 import * as reactAdapter from "../src/react/index.js"
 import * as reactQuery from "../src/react/query.js"
 import * as svelteAdapter from "../src/svelte/index.js"
+import * as draft from "../src/draft.js"
+import * as patches from "../src/patches.js"
+import * as infiniteQuery from "../src/infinite-query.js"
+import * as reactive from "../src/reactive.js"
+import * as paths from "../src/paths.js"
 
 /**
  * Guards the documented surface. Every name here is promised by the README's
@@ -11,33 +16,37 @@ import * as svelteAdapter from "../src/svelte/index.js"
  */
 const CORE_EXPORTS = [
   // core
-  "createStore", "StoreImpl", "createState", "defineStore",
-  "storeFactory", "cachedStoreFactory", "combineStores",
-  "computed", "derive", "shallow", "deepEqual",
+  "createStore", "StoreImpl", "lazy", "Lazy", "createState", "defineStore", "createSlices",
+  "storeFactory", "cachedStoreFactory", "fromObservable", "observe", "observableSymbol", "combineStores",
+  "registerStore", "registerAs", "unregisterStore", "getStore", "listStores", "subscribeRegistry", "acceptHMR",
+  "computed", "derive", "shallow", "deepEqual", "replaceEqualDeep", "batch",
+  "rafScheduler", "timeoutScheduler", "priorityScheduler",
   // query
-  "QueryClient", "createMutation", "hashQueryKey",
+  "QueryClient", "MutationCache", "createMutation", "hashQueryKey", "createOnlineManager",
   // persistence / integrity
-  "persistLocal", "persistIndexedDB", "createHistory", "beginTransaction",
+  "persistLocal", "persistIndexedDB", "createIndexedDBStorage", "persistQueryClient", "createHistory", "beginTransaction",
   "createEventSource", "createSerializer", "dehydrate", "rehydrate",
   // plugins / observability
-  "withMiddleware", "logger", "freeze", "registerPlugin", "getPlugins",
+  "withMiddleware", "logger", "freeze", "detectMutations", "registerPlugin", "getPlugins",
   "destroyPlugins", "devtoolsMiddleware", "connectReduxDevTools",
   // errors / validation
-  "SafeError", "createError", "isSafeError", "toSafeError", "applyPolicy",
-  "fromZod", "fromPredicate",
+  "SafeError", "createError", "isSafeError", "toSafeError", "applyPolicy", "reportErrors",
+  "fromZod", "fromPredicate", "fromStandard", "toSchema", "parseSchemaAsync", "issuesOf", "schemaError",
+  "validate",
   // async
   "asyncAction",
 ] as const
 
 const STORE_METHODS = [
   "read", "snapshot", "patch", "set", "update", "compute", "batch",
-  "effect", "subscribe", "use", "plugins", "flush", "destroy",
+  "effect", "reset", "getInitialState", "subscribe", "use", "plugins", "flush", "destroy",
 ] as const
 
 const QUERY_CLIENT_METHODS = [
   "watch", "fetchQuery", "prefetchQuery", "getQueryData", "setQueryData",
   "getQueryState", "invalidateQueries", "refetchQueries", "cancelQueries",
-  "removeQueries", "dehydrate", "hydrate", "size", "clear",
+  "removeQueries", "dehydrate", "hydrate", "subscribe", "size", "clear",
+  "getMutationCache", "setMutationDefaults", "getMutationDefaults", "resumePausedMutations",
 ] as const
 
 describe("public API surface", () => {
@@ -67,6 +76,39 @@ describe("public API surface", () => {
     expect("persistFs" in exostate).toBe(false)
   })
 
+  it("keeps the draft engine behind exostate/draft", () => {
+    expect("produce" in exostate).toBe(false)
+    expect(typeof draft.produce).toBe("function")
+    expect(typeof draft.mutate).toBe("function")
+  })
+
+  it("keeps JSON Patch support behind exostate/patches", () => {
+    for (const name of ["diffPatches", "applyPatch", "applyPatches", "subscribePatches"]) {
+      expect(name in exostate).toBe(false)
+      expect(typeof patches[name as keyof typeof patches]).toBe("function")
+    }
+  })
+
+  it("keeps dependency-tracked effects behind exostate/reactive", () => {
+    for (const name of ["autoSelector", "autorun", "reaction", "when"]) {
+      expect(name in exostate).toBe(false)
+      expect(typeof reactive[name as keyof typeof reactive]).toBe("function")
+    }
+  })
+
+  it("keeps path-scoped stores and subscriptions behind exostate/paths", () => {
+    for (const name of ["focus", "subscribePath"]) {
+      expect(name in exostate).toBe(false)
+      expect(typeof paths[name as keyof typeof paths]).toBe("function")
+    }
+  })
+
+  it("keeps infinite queries behind exostate/infinite-query", () => {
+    expect("watchInfinite" in exostate).toBe(false)
+    expect("watchInfinite" in exostate.QueryClient.prototype).toBe(false)
+    expect(typeof infiniteQuery.watchInfinite).toBe("function")
+  })
+
   it("exports the documented React hooks", () => {
     for (const hook of ["useStore", "useSelector", "useStores", "useCombined", "useStoresSelector"]) {
       expect(typeof reactAdapter[hook as keyof typeof reactAdapter]).toBe("function")
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest"
+import { QueryClient } from "../src/query.js"
+import { watchInfinite } from "../src/infinite-query.js"
+import type { InfiniteQueryFunctionContext, InfiniteQueryState } from "../src/infinite-query.js"
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms))
+
+type Page = { items: number[]; next: number | null; prev: number | null }
+
+/** Pages of three items over 0..(3 * count - 1); the cursor is the page index. */
+function feed(count: number, version = { n: 0 }) {
+  return vi.fn(async ({ pageParam }: InfiniteQueryFunctionContext<number>): Promise<Page> => {
+    await tick(5)
+    return {
+      items: [0, 1, 2].map(i => pageParam * 3 + i + version.n * 100),
+      next: pageParam + 1 < count ? pageParam + 1 : null,
+      prev: pageParam > 0 ? pageParam - 1 : null,
+    }
+  })
+}
+
+const cursors = {
+  getNextPageParam: (last: Page) => last.next,
+  getPreviousPageParam: (first: Page) => first.prev,
+}
+
+describe("watchInfinite", () => {
+  it("loads the first page, then appends pages until there are no more", async () => {
+    const client = new QueryClient()
+    const queryFn = feed(3)
+    const observer = watchInfinite(client, { queryKey: ["feed"], queryFn, initialPageParam: 0, ...cursors })
+    await tick(20)
+
+    expect(observer.getState().data).toEqual({ pages: [expect.objectContaining({ items: [0, 1, 2] })], pageParams: [0] })
+    expect(observer.getState().hasNextPage).toBe(true)
+    expect(observer.getState().hasPreviousPage).toBe(false)
+
+    await observer.fetchNextPage()
+    const data = await observer.fetchNextPage()
+    expect(data.pageParams).toEqual([0, 1, 2])
+    expect(data.pages.flatMap(p => p.items)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8])
+    expect(observer.getState().hasNextPage).toBe(false)
+
+    await observer.fetchNextPage()
+    expect(queryFn).toHaveBeenCalledTimes(3)
+    expect(queryFn.mock.calls.map(([ctx]) => ctx.direction)).toEqual([undefined, "forward", "forward"])
+    client.clear()
+  })
+
+  it("flags isFetchingNextPage only while a next page loads", async () => {
+    const client = new QueryClient()
+    const observer = watchInfinite(client, { queryKey: ["flags"], queryFn: feed(3), initialPageParam: 0, ...cursors })
+    const seen: Array<Pick<InfiniteQueryState<Page, number>, "isFetching" | "isFetchingNextPage">> = []
+    observer.subscribe(s => seen.push({ isFetching: s.isFetching, isFetchingNextPage: s.isFetchingNextPage }))
+    await tick(20)
+    expect(seen.some(s => s.isFetchingNextPage)).toBe(false)
+
+    const loading = observer.fetchNextPage()
+    expect(observer.getState().isFetchingNextPage).toBe(true)
+    expect(observer.getState().isFetchingPreviousPage).toBe(false)
+    await loading
+    expect(observer.getState().isFetchingNextPage).toBe(false)
+    client.clear()
+  })
+
+  it("prepends previous pages and trims to maxPages from the other end", async () => {
+    const client = new QueryClient()
+    const observer = watchInfinite(client, {
+      queryKey: ["window"],
+      queryFn: feed(5),
+      initialPageParam: 2,
+      maxPages: 2,
+      ...cursors,
+    })
+    await tick(20)
+
+    await observer.fetchPreviousPage()
+    expect(observer.getState().data!.pageParams).toEqual([1, 2])
+    await observer.fetchPreviousPage()
+    expect(observer.getState().data!.pageParams).toEqual([0, 1])
+    expect(observer.getState().hasPreviousPage).toBe(false)
+
+    await observer.fetchNextPage()
+    expect(observer.getState().data!.pageParams).toEqual([1, 2])
+    client.clear()
+  })
+
+  it("refetches every loaded page in order, recomputing params from fresh pages", async () => {
+    const client = new QueryClient()
+    const version = { n: 0 }
+    const queryFn = feed(4, version)
+    const observer = watchInfinite(client, { queryKey: ["refetch"], queryFn, initialPageParam: 0, ...cursors })
+    await tick(20)
+    await observer.fetchNextPage()
+    await observer.fetchNextPage()
+    queryFn.mockClear()
+
+    version.n = 1
+    await client.invalidateQueries({ queryKey: ["refetch"] })
+
+    expect(queryFn.mock.calls.map(([ctx]) => ctx.pageParam)).toEqual([0, 1, 2])
+    expect(observer.getState().data!.pages.map(p => p.items[0])).toEqual([100, 103, 106])
+    client.clear()
+  })
+
+  it("shares one entry, deduplicates page requests and retries failed pages", async () => {
+    const client = new QueryClient()
+    let failNext = true
+    const queryFn = vi.fn(async ({ pageParam }: InfiniteQueryFunctionContext<number>) => {
+      await tick(5)
+      if (pageParam === 1 && failNext) {
+        failNext = false
+        throw new Error("flaky")
+      }
+      return { items: [pageParam], next: pageParam + 1, prev: null }
+    })
+    const options = { queryKey: ["shared"], queryFn, initialPageParam: 0, retryDelay: 1, ...cursors }
+    const a = watchInfinite(client, options)
+    const b = watchInfinite(client, options)
+    await tick(20)
+    expect(queryFn).toHaveBeenCalledTimes(1)
+
+    const [first, second] = await Promise.all([a.fetchNextPage(), b.fetchNextPage()])
+    expect(first).toBe(second)
+    expect(b.getState().data!.pageParams).toEqual([0, 1])
+    expect(queryFn).toHaveBeenCalledTimes(3)
+    client.clear()
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest"
+import { MutationCache, QueryClient, createMutation } from "../src/query.js"
+import type { OnlineManager } from "../src/query.js"
+import type { AsyncStorageLike, StorageLike } from "../src"
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** An online manager the test flips by hand. */
+function network(online: boolean) {
+  const listeners = new Set<(online: boolean) => void>()
+  const manager: OnlineManager & { set(next: boolean): void } = {
+    isOnline: () => online,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    set(next) {
+      online = next
+      for (const listener of [...listeners]) listener(next)
+    },
+  }
+  return manager
+}
+
+function memoryStorage(): StorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>()
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value) },
+    removeItem: key => { data.delete(key) },
+  }
+}
+
+function asyncStorage(): AsyncStorageLike & { data: Map<string, string> } {
+  const storage = memoryStorage()
+  return {
+    data: storage.data,
+    getItem: key => tick().then(() => storage.getItem(key)),
+    setItem: (key, value) => tick().then(() => storage.setItem(key, value)),
+    removeItem: key => tick().then(() => storage.removeItem(key)),
+  }
+}
+
+describe("MutationCache", () => {
+  it("tracks every run of a mutation made with a client until it settles", async () => {
+    const client = new QueryClient({ onlineManager: network(true) })
+    const cache = client.getMutationCache()
+    const addNote = createMutation({
+      client,
+      mutationKey: ["addNote"],
+      mutationFn: async (text: string) => { await tick(5); return text.length },
+    })
+
+    const pending = addNote.mutate("hello")
+    expect(cache.getAll()).toEqual([
+      expect.objectContaining({ mutationKey: ["addNote"], variables: "hello", status: "pending" }),
+    ])
+    await expect(pending).resolves.toBe(5)
+    expect(cache.getAll()).toEqual([])
+    client.clear()
+  })
+
+  it("pauses runs made offline and replays them in order on reconnect", async () => {
+    const net = network(false)
+    const client = new QueryClient({ onlineManager: net })
+    const calls: string[] = []
+    const addNote = createMutation({
+      client,
+      mutationFn: async (text: string) => { calls.push(text); await tick(5); return text },
+    })
+
+    const first = addNote.mutate("first")
+    const second = addNote.mutate("second")
+    await tick()
+    expect(calls).toEqual([])
+    expect(addNote.getState()).toMatchObject({ status: "loading", isPaused: true })
+    expect(client.getMutationCache().getAll().map(m => m.status)).toEqual(["paused", "paused"])
+
+    net.set(true)
+    await tick(1)
+    expect(calls).toEqual(["first"])
+    await expect(Promise.all([first, second])).resolves.toEqual(["first", "second"])
+    expect(calls).toEqual(["first", "second"])
+    expect(addNote.getState()).toMatchObject({ status: "success", isPaused: false })
+    client.clear()
+  })
+
+  it("pauses a run that fails offline instead of spending its retries", async () => {
+    const net = network(true)
+    const client = new QueryClient({ onlineManager: net })
+    const mutationFn = vi.fn(async (text: string) => {
+      if (mutationFn.mock.calls.length === 1) {
+        net.set(false)
+        throw new Error("dead zone")
+      }
+      return text
+    })
+    const addNote = createMutation({ client, mutationFn, retry: 0 })
+
+    const saved = addNote.mutate("note")
+    await tick()
+    expect(addNote.getState()).toMatchObject({ status: "loading", isPaused: true })
+    net.set(true)
+    await expect(saved).resolves.toBe("note")
+    expect(mutationFn).toHaveBeenCalledTimes(2)
+    client.clear()
+  })
+
+  it("persists the paused queue and replays it after a reload through mutation defaults", async () => {
+    const storage = memoryStorage()
+    const before = new QueryClient({ onlineManager: network(false), mutationCache: new MutationCache({ storage }) })
+    const addNote = createMutation({
+      client: before,
+      mutationKey: ["addNote"],
+      mutationFn: (text: string) => Promise.resolve(text),
+      onMutate: text => ({ optimisticId: `tmp-${text}` }),
+    })
+    void addNote.mutate("a")
+    void addNote.mutate("b")
+    await tick()
+    before.clear()
+    expect(JSON.parse(storage.data.get("exostate:mutations")!)).toEqual({
+      mutations: [
+        expect.objectContaining({ mutationKey: ["addNote"], variables: "a", context: { optimisticId: "tmp-a" } }),
+        expect.objectContaining({ mutationKey: ["addNote"], variables: "b", context: { optimisticId: "tmp-b" } }),
+      ],
+    })
+
+    const after = new QueryClient({ onlineManager: network(true), mutationCache: new MutationCache({ storage }) })
+    expect(after.getMutationCache().getAll().map(m => [m.variables, m.status])).toEqual([["a", "paused"], ["b", "paused"]])
+    const replayed: unknown[] = []
+    after.setMutationDefaults({
+      mutationKey: ["addNote"],
+      mutationFn: async (text: string) => { await tick(5); replayed.push(text); return text },
+      onSuccess: (_data, _text, context) => { replayed.push(context) },
+    })
+    await after.resumePausedMutations()
+
+    expect(replayed).toEqual(["a", { optimisticId: "tmp-a" }, "b", { optimisticId: "tmp-b" }])
+    expect(after.getMutationCache().getAll()).toEqual([])
+    expect(storage.data.has("exostate:mutations")).toBe(false)
+    after.clear()
+  })
+
+  it("keeps restored runs queued, in order, until their key has a mutationFn", async () => {
+    const storage = memoryStorage()
+    storage.setItem("exostate:mutations", JSON.stringify({
+      mutations: [
+        { mutationKey: ["addNote"], variables: 1, context: null, submittedAt: 0 },
+        { mutationKey: ["editNote"], variables: 2, context: null, submittedAt: 0 },
+      ],
+    }))
+    const client = new QueryClient({ onlineManager: network(true), mutationCache: new MutationCache({ storage }) })
+    const editNote = vi.fn().mockResolvedValue(undefined)
+    client.setMutationDefaults({ mutationKey: ["editNote"], mutationFn: editNote })
+
+    await client.resumePausedMutations()
+    expect(editNote).not.toHaveBeenCalled()
+    expect(client.getMutationCache().getAll()).toHaveLength(2)
+
+    const addNote = vi.fn().mockResolvedValue(undefined)
+    client.setMutationDefaults({ mutationKey: ["addNote"], mutationFn: addNote })
+    await client.resumePausedMutations()
+    expect(addNote).toHaveBeenCalledWith(1)
+    expect(editNote).toHaveBeenCalledWith(2)
+    client.clear()
+  })
+
+  it("takes a missing mutationFn from the defaults and fails without one", async () => {
+    const client = new QueryClient({ onlineManager: network(true) })
+    client.setMutationDefaults({ mutationKey: ["ping"], mutationFn: () => Promise.resolve("pong") })
+
+    await expect(createMutation<string>({ client, mutationKey: ["ping"] }).mutate()).resolves.toBe("pong")
+    await expect(createMutation<string>({ client, mutationKey: ["other"] }).mutate())
+      .rejects.toMatchObject({ code: "mutation_fn_missing" })
+    expect(client.getMutationCache().getAll()).toEqual([])
+    client.clear()
+  })
+
+  it("restores and persists the queue through an async storage", async () => {
+    const storage = asyncStorage()
+    storage.data.set("exostate:mutations", JSON.stringify({
+      mutations: [{ mutationKey: ["addNote"], variables: "stored", context: null, submittedAt: 0 }],
+    }))
+    const client = new QueryClient({ onlineManager: network(false), mutationCache: new MutationCache({ storage }) })
+    const addNote = createMutation({ client, mutationKey: ["addNote"], mutationFn: (text: string) => Promise.resolve(text) })
+    void addNote.mutate("fresh")
+    await tick(5)
+
+    expect(client.getMutationCache().getAll().map(m => m.variables)).toEqual(["stored", "fresh"])
+    expect(JSON.parse(storage.data.get("exostate:mutations")!)).toEqual({
+      mutations: [
+        expect.objectContaining({ variables: "stored" }),
+        expect.objectContaining({ variables: "fresh" }),
+      ],
+    })
+    client.clear()
+  })
+
+  it("does not track a mutation made without a client", async () => {
+    const client = new QueryClient({ onlineManager: network(false) })
+    const mutationFn = vi.fn((text: string) => Promise.resolve(text))
+    const addNote = createMutation({ mutationKey: ["addNote"], mutationFn })
+    await expect(addNote.mutate("a")).resolves.toBe("a")
+    expect(mutationFn).toHaveBeenCalledTimes(1)
+    expect(client.getMutationCache().getAll()).toEqual([])
+    client.clear()
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest"
+import { QueryClient, createOnlineManager } from "../src/query.js"
+import type { OnlineManager } from "../src/query.js"
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** An online manager the test flips by hand. */
+function network(online: boolean) {
+  const listeners = new Set<(online: boolean) => void>()
+  const manager: OnlineManager & { set(next: boolean): void; listeners: typeof listeners } = {
+    listeners,
+    isOnline: () => online,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    set(next) {
+      online = next
+      for (const listener of [...listeners]) listener(next)
+    },
+  }
+  return manager
+}
+
+describe("networkMode", () => {
+  it("pauses a fetch started offline and runs it on reconnect", async () => {
+    const net = network(false)
+    const client = new QueryClient({ onlineManager: net })
+    const queryFn = vi.fn().mockResolvedValue("data")
+    const observer = client.watch({ queryKey: ["paused"], queryFn })
+    await tick()
+
+    expect(queryFn).not.toHaveBeenCalled()
+    expect(observer.getState()).toMatchObject({ fetchStatus: "paused", isPaused: true, isFetching: false, status: "loading" })
+
+    net.set(true)
+    expect(observer.getState()).toMatchObject({ fetchStatus: "fetching", isPaused: false, isFetching: true })
+    await tick()
+    expect(queryFn).toHaveBeenCalledTimes(1)
+    expect(observer.getState()).toMatchObject({ data: "data", fetchStatus: "idle", isPaused: false })
+    client.clear()
+  })
+
+  it("does not spend retries while offline", async () => {
+    const net = network(true)
+    const client = new QueryClient({ onlineManager: net })
+    let calls = 0
+    const queryFn = vi.fn(async () => {
+      calls++
+      if (calls === 1) {
+        net.set(false)
+        throw new Error("network down")
+      }
+      return "ok"
+    })
+    const observer = client.watch({ queryKey: ["flaky"], queryFn, retry: 0 })
+    await tick()
+
+    expect(observer.getState()).toMatchObject({ fetchStatus: "paused", status: "loading", failureCount: 0 })
+    net.set(true)
+    await tick()
+    expect(queryFn).toHaveBeenCalledTimes(2)
+    expect(observer.getState()).toMatchObject({ data: "ok", status: "success" })
+    client.clear()
+  })
+
+  it("online: starts the query function synchronously while online", async () => {
+    const client = new QueryClient({ onlineManager: network(true) })
+    const queryFn = vi.fn().mockResolvedValue("now")
+    const fetched = client.fetchQuery({ queryKey: ["sync"], queryFn })
+    expect(queryFn).toHaveBeenCalledTimes(1)
+    await expect(fetched).resolves.toBe("now")
+    client.clear()
+  })
+
+  it("always: fetches and fails regardless of connectivity", async () => {
+    const client = new QueryClient({ onlineManager: network(false) })
+    const queryFn = vi.fn().mockRejectedValue(new Error("offline"))
+    const error = await client.fetchQuery({ queryKey: ["always"], queryFn, networkMode: "always", retry: 0 }).catch(e => e as Error)
+    expect(error).toMatchObject({ message: "offline" })
+    expect(client.getQueryState(["always"])).toMatchObject({ status: "error", isPaused: false })
+    client.clear()
+  })
+
+  it("offlineFirst: makes the first attempt offline, then pauses retries", async () => {
+    const net = network(false)
+    const client = new QueryClient({ onlineManager: net })
+    const queryFn = vi.fn()
+      .mockRejectedValueOnce(new Error("no cache"))
+      .mockResolvedValueOnce("fresh")
+    const observer = client.watch({ queryKey: ["offline-first"], queryFn, networkMode: "offlineFirst", retryDelay: 1 })
+    await tick()
+
+    expect(queryFn).toHaveBeenCalledTimes(1)
+    expect(observer.getState().fetchStatus).toBe("paused")
+    net.set(true)
+    await tick(5)
+    expect(observer.getState().data).toBe("fresh")
+    client.clear()
+  })
+
+  it("cancelling a paused fetch stops waiting for the network", async () => {
+    const net = network(false)
+    const client = new QueryClient({ onlineManager: net })
+    const queryFn = vi.fn().mockResolvedValue(1)
+    const observer = client.watch({ queryKey: ["cancel"], queryFn })
+    await tick()
+
+    client.cancelQueries({ queryKey: ["cancel"] })
+    expect(observer.getState()).toMatchObject({ fetchStatus: "idle", isPaused: false })
+    observer.destroy()
+    client.clear()
+    expect(net.listeners.size).toBe(0)
+  })
+
+  it("refetches stale observed queries when the online manager reports a reconnect", async () => {
+    const net = network(true)
+    const client = new QueryClient({ onlineManager: net })
+    const queryFn = vi.fn().mockResolvedValue("v")
+    client.watch({ queryKey: ["reconnect"], queryFn })
+    await tick()
+
+    net.set(false)
+    net.set(true)
+    await tick()
+    expect(queryFn).toHaveBeenCalledTimes(2)
+    client.clear()
+  })
+})
+
+describe("createOnlineManager", () => {
+  it("follows navigator.onLine and the online and offline events", () => {
+    const manager = createOnlineManager()
+    expect(manager.isOnline()).toBe(true)
+    const listener = vi.fn()
+    const stop = manager.subscribe(listener)
+    globalThis.dispatchEvent(new globalThis.Event("offline"))
+    globalThis.dispatchEvent(new globalThis.Event("online"))
+    stop()
+    globalThis.dispatchEvent(new globalThis.Event("offline"))
+    expect(listener.mock.calls).toEqual([[false], [true]])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest"
+import { QueryClient } from "../src/query.js"
+import { replaceEqualDeep } from "../src"
+
+type Row = { id: number; name: string; tags: string[] }
+
+const rows = (count: number): Row[] =>
+  Array.from({ length: count }, (_, id) => ({ id, name: `row ${id}`, tags: ["a"] }))
+
+describe("replaceEqualDeep", () => {
+  it("returns the previous value when nothing changed", () => {
+    const prev = { list: rows(3), meta: { total: 3 } }
+    expect(replaceEqualDeep(prev, { list: rows(3), meta: { total: 3 } })).toBe(prev)
+  })
+
+  it("reuses unchanged subtrees and replaces changed ones", () => {
+    const prev = rows(3)
+    const next = rows(3)
+    next[1] = { ...next[1]!, name: "renamed" }
+    const shared = replaceEqualDeep(prev, next)
+
+    expect(shared).not.toBe(prev)
+    expect(shared).toEqual(next)
+    expect(shared[0]).toBe(prev[0])
+    expect(shared[2]).toBe(prev[2])
+    expect(shared[1]).not.toBe(prev[1])
+    expect(shared[1]!.tags).toBe(prev[1]!.tags)
+  })
+
+  it("notices added and removed keys and items", () => {
+    const prev = { a: 1, b: 2 }
+    expect(replaceEqualDeep(prev, { a: 1 })).toEqual({ a: 1 })
+    expect(replaceEqualDeep(prev, { a: 1, b: 2, c: undefined })).not.toBe(prev)
+    expect(replaceEqualDeep([1, 2], [1, 2, 3])).toEqual([1, 2, 3])
+  })
+
+  it("only shares plain objects and arrays", () => {
+    const prev = { at: new Date(0) }
+    const next = { at: new Date(0) }
+    expect(replaceEqualDeep(prev, next).at).toBe(next.at)
+  })
+})
+
+describe("structuralSharing", () => {
+  it("keeps the data's identity across a refetch of an identical response", async () => {
+    const client = new QueryClient()
+    const queryFn = vi.fn(() => Promise.resolve(rows(500)))
+    const observer = client.watch({ queryKey: ["rows"], queryFn })
+    const first = await observer.refetch()
+
+    const selected = vi.fn()
+    observer.store.subscribe(s => s.data, selected)
+    await expect(observer.refetch()).resolves.toBe(first)
+    expect(observer.getState().data).toBe(first)
+    expect(selected).not.toHaveBeenCalled()
+    client.clear()
+  })
+
+  it("changes identity only along the path that changed", async () => {
+    const client = new QueryClient()
+    let version = 0
+    const observer = client.watch({
+      queryKey: ["poll"],
+      queryFn: () => {
+        const list = rows(3)
+        if (version > 0) list[2] = { ...list[2]!, name: "changed" }
+        return Promise.resolve(list)
+      },
+    })
+    const before = await observer.refetch()
+    version = 1
+    const after = await observer.refetch()
+
+    expect(after).not.toBe(before)
+    expect(after[0]).toBe(before[0])
+    expect(after[2]).not.toBe(before[2])
+    client.clear()
+  })
+
+  it("can be turned off or replaced with a custom merge", async () => {
+    const client = new QueryClient()
+    const off = client.watch({ queryKey: ["off"], queryFn: () => Promise.resolve({ n: 1 }), structuralSharing: false })
+    const first = await off.refetch()
+    expect(await off.refetch()).not.toBe(first)
+
+    const merge = vi.fn((old: number[] | undefined, next: number[]) => [...(old ?? []), ...next])
+    const custom = client.watch({ queryKey: ["custom"], queryFn: () => Promise.resolve([1]), structuralSharing: merge })
+    await custom.refetch()    // joins the initial fetch
+    await custom.refetch()
+    expect(custom.getState().data).toEqual([1, 1])
+    expect(merge.mock.calls).toEqual([[undefined, [1]], [[1], [1]]])
+    client.clear()
+  })
+
+  it("also applies to setQueryData", () => {
+    const client = new QueryClient()
+    const todos = client.setQueryData(["todos"], [{ id: 1 }, { id: 2 }])
+    const next = client.setQueryData<Array<{ id: number }>>(["todos"], prev => [...prev!.map(t => ({ ...t })), { id: 3 }])
+    expect(next[0]).toBe(todos[0])
+    expect(next[1]).toBe(todos[1])
+    client.clear()
+  })
+})
@@ -108,4 +108,25 @@ describe("useMutation", () => {
     })
     client.clear()
   })
+
+  it("runs the onSuccess from the client's mutation defaults", async () => {
+    const client = new QueryClient()
+    const onSuccess = vi.fn()
+    client.setMutationDefaults({
+      mutationKey: ["double"],
+      mutationFn: (n: number) => Promise.resolve(n * 2),
+      onSuccess,
+    })
+    let handle: { mutateAsync: (v: number) => Promise<number> } | null = null
+
+    function View() {
+      handle = useMutation<number, number>({ mutationKey: ["double"] })
+      return null
+    }
+
+    render(withClient(client, React.createElement(View)))
+    await act(async () => { await handle!.mutateAsync(4) })
+    expect(onSuccess).toHaveBeenCalledWith(8, 4, undefined)
+    client.clear()
+  })
 })
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createStore } from "../src"
+import { reaction } from "../src/reactive.js"
+import type { SafeError } from "../src"
+
+type S = { query: string; page: number }
+
+describe("reaction()", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("runs on selection changes only, with the previous value, until disposed", () => {
+    const store = createStore<S>({ query: "", page: 1 })
+    const effect = vi.fn()
+    const stop = reaction(store, s => s.query, effect)
+
+    store.patch({ page: 2 })
+    store.patch({ query: "a" })
+    store.patch({ query: "ab" })
+    stop()
+    store.patch({ query: "abc" })
+
+    expect(effect.mock.calls.map(([value, { previous }]) => [value, previous])).toEqual([
+      ["a", undefined],
+      ["ab", "a"],
+    ])
+  })
+
+  it("fires immediately and compares with a custom equals", () => {
+    const store = createStore({ tags: ["a"] })
+    const effect = vi.fn()
+    reaction(store, s => [...s.tags], effect, {
+      fireImmediately: true,
+      equals: (a, b) => a.join() === b.join(),
+    })
+    store.set({ tags: ["a"] })
+    store.set({ tags: ["a", "b"] })
+    expect(effect.mock.calls.map(([value]) => value)).toEqual([["a"], ["a", "b"]])
+  })
+
+  it("debounces to the latest selection", () => {
+    const store = createStore<S>({ query: "", page: 1 })
+    const effect = vi.fn()
+    reaction(store, s => s.query, effect, { debounce: 300 })
+
+    store.patch({ query: "a" })
+    vi.advanceTimersByTime(200)
+    store.patch({ query: "ab" })
+    vi.advanceTimersByTime(200)
+    expect(effect).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(100)
+    expect(effect).toHaveBeenCalledTimes(1)
+    expect(effect.mock.calls[0]![0]).toBe("ab")
+  })
+
+  it("throttles: runs at once, then the latest selection at the end of the window", () => {
+    const store = createStore(0)
+    const effect = vi.fn()
+    reaction(store, n => n, effect, { throttle: 1000 })
+
+    store.set(1)
+    store.set(2)
+    store.set(3)
+    expect(effect.mock.calls.map(([value]) => value)).toEqual([1])
+
+    vi.advanceTimersByTime(1000)
+    expect(effect.mock.calls.map(([value]) => value)).toEqual([1, 3])
+  })
+
+  it("aborts an async effect that is still running when the selection changes", async () => {
+    const store = createStore<S>({ query: "", page: 1 })
+    const signals: AbortSignal[] = []
+    const onError = vi.fn()
+    reaction(store, s => s.query, async (_query, { signal }) => {
+      signals.push(signal)
+      await new Promise((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(new Error("aborted")))
+      })
+    }, { onError })
+
+    store.patch({ query: "a" })
+    store.patch({ query: "ab" })
+    await vi.runAllTimersAsync()
+
+    expect(signals.map(s => s.aborted)).toEqual([true, false])
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it("delivers runs through a scheduler, coalescing changes before it fires", async () => {
+    const store = createStore(0)
+    const effect = vi.fn()
+    reaction(store, n => n, effect, { scheduler: "microtask" })
+
+    store.set(1)
+    store.set(2)
+    expect(effect).not.toHaveBeenCalled()
+    await Promise.resolve()
+    expect(effect.mock.calls.map(([value]) => value)).toEqual([2])
+  })
+
+  it("reports failures as reaction_failed and stops when its signal aborts", async () => {
+    const store = createStore(0)
+    const errors: SafeError[] = []
+    const controller = new AbortController()
+    reaction(store, n => n, async n => {
+      await Promise.resolve()
+      throw new Error(`failed on ${n}`)
+    }, { onError: e => { errors.push(e) }, signal: controller.signal })
+
+    store.set(1)
+    await vi.runAllTimersAsync()
+    expect(errors.map(e => [e.code, e.message])).toEqual([["reaction_failed", "Reaction threw: failed on 1"]])
+
+    controller.abort()
+    store.set(2)
+    await vi.runAllTimersAsync()
+    expect(errors).toHaveLength(1)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  createStore,
+  defineStore,
+  getStore,
+  listStores,
+  registerAs,
+  registerStore,
+  subscribeRegistry,
+} from "../src"
+import { focus } from "../src/paths.js"
+import type { RegistryEvent } from "../src"
+
+afterEach(() => {
+  for (const { store } of listStores()) store.destroy()
+})
+
+describe("store registry", () => {
+  it("registers stores that opt in and leaves the rest out", () => {
+    const user = createStore({ name: "a" }, { plugins: [registerAs("user")] })
+    createStore({ n: 0 })
+    const cart = createStore({ items: [] as string[] }, { plugins: [registerAs("cart")] })
+
+    expect(getStore("user")).toBe(user)
+    expect(getStore<{ items: string[] }>("cart")?.read().items).toEqual([])
+    expect(getStore("missing")).toBeUndefined()
+    expect(listStores()).toEqual([
+      { name: "user", store: user },
+      { name: "cart", store: cart },
+    ])
+  })
+
+  it("unregisters on destroy and frees the name", () => {
+    const first = createStore(1, { plugins: [registerAs("counter")] })
+    first.destroy()
+    expect(getStore("counter")).toBeUndefined()
+
+    const second = createStore(2, { plugins: [registerAs("counter")] })
+    expect(getStore("counter")).toBe(second)
+    first.destroy()
+    expect(getStore("counter")).toBe(second)
+  })
+
+  it("hands a duplicate name to the newer store with a warning", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+      const first = createStore(1, { plugins: [registerAs("counter")] })
+      const events: RegistryEvent[] = []
+      const stop = subscribeRegistry(e => { events.push(e) })
+      const second = createStore(2, { plugins: [registerAs("counter")] })
+      stop()
+
+      expect(getStore("counter")).toBe(second)
+      expect(listStores()).toEqual([{ name: "counter", store: second }])
+      expect(events.map(e => [e.type, e.store])).toEqual([["unregister", first], ["register", second]])
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"counter" was already registered'))
+
+      // The replaced store keeps working, and destroying it leaves the entry alone.
+      expect(first.set(3)).toBe(3)
+      first.destroy()
+      expect(getStore("counter")).toBe(second)
+    } finally {
+      warn.mockRestore()
+    }
+  })
+
+  it("emits register and unregister events", () => {
+    const events: RegistryEvent[] = []
+    const stop = subscribeRegistry(e => { events.push(e) })
+    const store = createStore({}, { plugins: [registerAs("settings")] })
+    store.destroy()
+    stop()
+    createStore({}, { plugins: [registerAs("ignored")] })
+
+    expect(events).toEqual([
+      { type: "register", name: "settings", store },
+      { type: "unregister", name: "settings", store },
+    ])
+  })
+
+  it("registers other stores by hand", () => {
+    const app = createStore({ user: { name: "a" } })
+    const user = focus<{ user: { name: string } }, { name: string }>(app, "user")
+    const unregister = registerStore("user", user)
+    expect(getStore("user")).toBe(user)
+    unregister()
+    unregister()
+    expect(listStores()).toEqual([])
+  })
+
+  it("registers defineStore stores, with getters and actions", () => {
+    const counter = defineStore({
+      state: () => ({ n: 1 }),
+      getters: { doubled: s => s.n * 2 },
+      actions: {
+        inc() { this.patch({ n: this.read().n + 1 }) },
+        dispose() { this.destroy() },
+      },
+      options: { name: "counter" },
+    })
+    const found = getStore("counter") as typeof counter
+    expect(found).toBe(counter)
+    found.inc()
+    expect(found.doubled).toBe(4)
+
+    found.dispose()
+    expect(counter.destroyed).toBe(true)
+    expect(getStore("counter")).toBeUndefined()
+
+    const legacy = defineStore(() => ({ n: 0 }), { plugins: [registerAs("legacy")] })
+    expect(getStore("legacy")).toBe(legacy)
+  })
+})
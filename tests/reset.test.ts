@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore, createHistory, persistLocal, withMiddleware, defineStore, lazy } from "../src"
+import { focus } from "../src/paths.js"
+
+type S = { user: { name: string } | null; cart: string[] }
+
+class MemoryStorage {
+  private map = new Map<string, string>()
+  getItem(key: string) { return this.map.has(key) ? this.map.get(key)! : null }
+  setItem(key: string, value: string) { this.map.set(key, value) }
+  removeItem(key: string) { this.map.delete(key) }
+}
+
+describe("store.reset()", () => {
+  it("restores the initial state as an ordinary commit", () => {
+    const initial: S = { user: null, cart: [] }
+    const after = vi.fn()
+    const store = createStore<S>(initial, { plugins: [{ name: "spy", onAfterUpdate: after }] })
+    const listener = vi.fn()
+    store.subscribe(s => s.user, listener)
+
+    store.set({ user: { name: "a" }, cart: ["x"] })
+    store.reset({ action: "logout" })
+
+    expect(store.read()).toBe(initial)
+    expect(store.getInitialState()).toBe(initial)
+    expect(store.version).toBe(2)
+    expect(listener).toHaveBeenLastCalledWith(null)
+    expect(after).toHaveBeenLastCalledWith({ user: { name: "a" }, cart: ["x"] }, initial, { action: "logout" })
+  })
+
+  it("is recorded by history and written by persistence", () => {
+    const store = createStore<S>({ user: null, cart: [] })
+    const history = createHistory(store)
+    history.attach()
+    const storage = new MemoryStorage()
+    persistLocal(store, "s", storage)
+
+    store.set({ user: { name: "a" }, cart: [] })
+    store.reset()
+    expect(storage.getItem("s")).toBe('{"user":null,"cart":[]}')
+
+    history.undo()
+    expect(store.read().user).toEqual({ name: "a" })
+  })
+
+  it("resets a focused slice from the parent's initial state", () => {
+    const app = createStore<S>({ user: null, cart: ["seed"] })
+    const cart = focus<S, string[]>(app, "cart")
+    app.set({ user: { name: "a" }, cart: [] })
+
+    expect(cart.getInitialState()).toEqual(["seed"])
+    cart.reset()
+    expect(app.read()).toEqual({ user: { name: "a" }, cart: ["seed"] })
+  })
+
+  it("is announced to middleware and labelled inside defineStore actions", () => {
+    const ops: string[] = []
+    const store = withMiddleware(createStore({ n: 0 }), [{ after: op => { ops.push(op) } }])
+    store.set({ n: 1 })
+    store.reset()
+    expect(ops).toEqual(["set", "reset"])
+
+    const after = vi.fn()
+    const counter = defineStore({
+      id: "counter",
+      state: () => ({ n: 0 }),
+      actions: { clear() { this.reset() } },
+      options: { plugins: [{ name: "spy", onAfterUpdate: after }] },
+    })
+    counter.set({ n: 3 })
+    counter.clear()
+    expect(counter.read().n).toBe(0)
+    expect(after).toHaveBeenLastCalledWith({ n: 3 }, { n: 0 }, { action: "counter/clear" })
+  })
+})
+
+describe("lazy initial state", () => {
+  it("runs the initializer on first read, once", () => {
+    const init = vi.fn(() => ({ user: null, cart: ["a"] }) as S)
+    const store = createStore(lazy(init))
+    expect(init).not.toHaveBeenCalled()
+
+    expect(store.read().cart).toEqual(["a"])
+    store.read()
+    store.reset()
+    expect(init).toHaveBeenCalledTimes(1)
+    expect(store.getInitialState()).toBe(store.read())
+  })
+
+  it("runs on first subscribe, and not for attaching plugins", () => {
+    const init = vi.fn(() => ({ n: 1 }))
+    const store = createStore(lazy(init), { plugins: [{ name: "noop" }] })
+    expect(init).not.toHaveBeenCalled()
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener)
+    expect(init).toHaveBeenCalledTimes(1)
+    store.set({ n: 2 })
+    expect(listener).toHaveBeenCalledWith(2)
+  })
+
+  it("keeps the initial state when the first use is a write", () => {
+    const store = createStore(lazy(() => ({ n: 1 })))
+    store.set({ n: 5 })
+    expect(store.getInitialState()).toEqual({ n: 1 })
+  })
+
+  it("retries an initializer that threw and rejects one that reads its own store", () => {
+    let fail = true
+    const store = createStore(lazy(() => {
+      if (fail) throw new Error("not ready")
+      return { n: 1 }
+    }))
+    expect(() => store.read()).toThrow("not ready")
+    fail = false
+    expect(store.read()).toEqual({ n: 1 })
+
+    const selfish: { read(): unknown } = createStore(lazy(() => ({ n: selfish.read() })))
+    expect(() => selfish.read()).toThrow("lazy initializer cannot read the store")
+  })
+
+  it("keeps a plain function as the state rather than calling it", () => {
+    const greet = (name: string) => `hello ${name}`
+    const store = createStore<(name: string) => string>(greet)
+    expect(store.read()).toBe(greet)
+    expect(store.getInitialState()).toBe(greet)
+
+    const shout = (name: string) => `HELLO ${name}`
+    store.set(shout)
+    expect(store.read()("ada")).toBe("HELLO ada")
+    store.reset()
+    expect(store.read()).toBe(greet)
+  })
+})
@@ -1,5 +1,19 @@
 import { describe, it, expect } from "vitest"
-import { fromPredicate, fromZod } from "../src"
+import {
+  fromPredicate,
+  fromZod,
+  fromStandard,
+  toSchema,
+  parseSchemaAsync,
+  issuesOf,
+  isSafeError,
+  createSerializer,
+  createStore,
+  rehydrate,
+  persistLocal,
+  validate,
+} from "../src"
+import type { StandardSchemaV1, StandardSchemaResult } from "../src"
 import { z } from "zod"
 
 type S = { count: number; label: string }
@@ -25,3 +39,82 @@ describe("schema validation integration", () => {
     expect(out).toEqual({ count: 2, label: "b" })
   })
 })
+
+/** A minimal Standard Schema validator, optionally answering asynchronously. */
+function standardCount(async = false): StandardSchemaV1<unknown, { count: number }> {
+  const check = (value: unknown): StandardSchemaResult<{ count: number }> => {
+    const count = (value as { count?: unknown } | null)?.count
+    if (typeof count === "number") return { value: { count } }
+    return { issues: [{ message: "Expected a number", path: [{ key: "count" }] }] }
+  }
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: value => async ? Promise.resolve(check(value)) : check(value),
+    },
+  }
+}
+
+describe("Standard Schema support", () => {
+  it("parses through ~standard and throws structured issues", () => {
+    const schema = fromStandard(standardCount())
+    expect(schema.parse({ count: 1 })).toEqual({ count: 1 })
+    try {
+      schema.parse({ count: "x" })
+      expect.unreachable()
+    } catch (err) {
+      expect(isSafeError(err) && err.code).toBe("validation_failed")
+      expect(issuesOf(err)).toEqual([{ path: ["count"], message: "Expected a number" }])
+      expect((err as Error).message).toBe('Validation failed at "count": Expected a number')
+    }
+  })
+
+  it("uses zod's ~standard interface, with nested paths", () => {
+    const Z = z.object({ user: z.object({ age: z.number() }) })
+    const schema = toSchema(Z)
+    expect(schema.parse({ user: { age: 1 } })).toEqual({ user: { age: 1 } })
+    expect(() => schema.parse({ user: { age: "x" } })).toThrow(/^Validation failed at "user.age"/)
+  })
+
+  it("awaits async validators and refuses them synchronously", async () => {
+    const schema = fromStandard(standardCount(true))
+    await expect(schema.parseAsync!({ count: 2 })).resolves.toEqual({ count: 2 })
+    await expect(parseSchemaAsync(standardCount(true), {})).rejects.toThrow("Expected a number")
+    expect(() => schema.parse({ count: 2 })).toThrow("validates asynchronously")
+  })
+
+  it("reports predicate failures as an issue list", () => {
+    const schema = fromPredicate<S>(isS)
+    expect(() => schema.parse(null)).toThrow(expect.objectContaining({
+      code: "validation_failed",
+      details: { issues: [{ path: [], message: "Invalid schema" }] },
+    }))
+  })
+
+  it("is accepted by createSerializer, rehydrate, persistLocal and validate", () => {
+    const serializer = createSerializer(1, { validate: standardCount() })
+    expect(serializer.decode('{"v":1,"data":{"count":3}}')).toEqual({ count: 3 })
+    expect(() => serializer.decode('{"v":1,"data":{}}')).toThrow("Expected a number")
+
+    const store = createStore({ count: 0 })
+    rehydrate(store, '{"count":4}', standardCount())
+    expect(store.read().count).toBe(4)
+    expect(() => rehydrate(store, '{"count":"x"}', z.object({ count: z.number() }))).toThrow("Validation failed")
+    expect(store.read().count).toBe(4)
+
+    const storage = new Map<string, string>([["bad", '{"count":"x"}'], ["good", '{"count":9}']])
+    const local = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value) },
+      removeItem: (key: string) => { storage.delete(key) },
+    }
+    persistLocal(store, "bad", local, { schema: standardCount() }).detach()
+    expect(store.read().count).toBe(4)
+    persistLocal(store, "good", local, { schema: standardCount() }).detach()
+    expect(store.read().count).toBe(9)
+
+    store.use(validate(standardCount()))
+    expect(() => store.set({ count: "y" } as unknown as { count: number })).toThrow('Invalid state at "count"')
+  })
+})
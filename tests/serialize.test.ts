@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { createSerializer } from "../src"
+import { createSerializer, isSafeError } from "../src"
 
 type V2 = { count: number; label: string }
 
@@ -54,5 +54,29 @@ describe("serialization with migrations", () => {
     const raw = JSON.stringify({ v: 3, data: { count: 5, label: "" } })
     expect(() => s.decode(raw)).toThrow()
   })
-})
 
+  it("treats a callable Standard Schema as a schema, not a type guard", () => {
+    // Like arktype's `type(...)`: callable, returning the output or an error
+    // object — both truthy — and carrying `~standard`.
+    const validator = Object.assign(
+      (x: unknown) => (isV2(x) ? x : { summary: "not a V2" }),
+      {
+        "~standard": {
+          version: 1 as const,
+          vendor: "callable",
+          validate: (x: unknown) => (isV2(x) ? { value: x } : { issues: [{ message: "not a V2" }] }),
+        },
+      }
+    )
+    const s = createSerializer<V2>(2, { validate: validator })
+    expect(s.decode(JSON.stringify({ v: 2, data: { count: 1, label: "a" } }))).toEqual({ count: 1, label: "a" })
+
+    let error: unknown
+    try {
+      s.decode(JSON.stringify({ v: 2, data: { count: "x" } }))
+    } catch (err) {
+      error = err
+    }
+    expect(isSafeError(error) && error.code).toBe("validation_failed")
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest"
+import { createStore } from "../src"
+import { subscribePath } from "../src/paths.js"
+import { mutate } from "../src/draft.js"
+
+type S = {
+  user: { profile: { name: string; age: number } }
+  rows: Array<{ id: number; label: string }>
+  byId: Map<string, { done: boolean }>
+}
+
+function initial(): S {
+  return {
+    user: { profile: { name: "a", age: 1 } },
+    rows: [{ id: 1, label: "one" }, { id: 2, label: "two" }],
+    byId: new Map([["t1", { done: false }]]),
+  }
+}
+
+describe("subscribePath(Store, )", () => {
+  it("fires when the watched path changes", () => {
+    const store = createStore<S>(initial())
+    const seen: unknown[] = []
+    subscribePath(store, ["user", "profile", "name"], v => seen.push(v))
+    mutate(store, d => { d.user.profile.name = "b" })
+    mutate(store, d => { d.user.profile.age = 2 })
+    expect(seen).toEqual(["b"])
+  })
+
+  it("never runs listeners under an unchanged branch", () => {
+    const store = createStore<S>(initial())
+    const eq = vi.fn(Object.is)
+    for (let i = 0; i < 100; i++) {
+      subscribePath(store, ["rows", i % 2, "label"], () => {}, { eq })
+    }
+    mutate(store, d => { d.user.profile.age = 2 })
+    expect(eq).not.toHaveBeenCalled()
+
+    mutate(store, d => { d.rows[0]!.label = "uno" })
+    // Only the 50 subscribers watching row 0 are re-checked.
+    expect(eq).toHaveBeenCalledTimes(50)
+  })
+
+  it("follows Map keys and array indices", () => {
+    const store = createStore<S>(initial())
+    const done = vi.fn()
+    const second = vi.fn()
+    subscribePath<boolean>(store, ["byId", "t1", "done"], done)
+    subscribePath(store, ["rows", 1], second)
+    mutate(store, d => { d.byId.get("t1")!.done = true })
+    mutate(store, d => { d.rows[1]!.label = "dos" })
+    expect(done).toHaveBeenCalledWith(true)
+    expect(second).toHaveBeenCalledWith({ id: 2, label: "dos" })
+  })
+
+  it("supports fireImmediately, eq and idempotent unsubscribe", () => {
+    const store = createStore<S>(initial())
+    const seen: unknown[] = []
+    const unsub = subscribePath(store, ["user", "profile"], v => seen.push(v), {
+      fireImmediately: true,
+      eq: (a, b) => (a as { name: string }).name === (b as { name: string }).name,
+    })
+    mutate(store, d => { d.user.profile.age = 5 })
+    mutate(store, d => { d.user.profile.name = "z" })
+    unsub()
+    unsub()
+    mutate(store, d => { d.user.profile.name = "y" })
+    expect(seen.map(v => (v as { name: string }).name)).toEqual(["a", "z"])
+  })
+
+  it("coalesces with microtask notification and counts toward lifecycle hooks", async () => {
+    const counts: number[] = []
+    const store = createStore<S>(initial(), {
+      notify: "microtask",
+      onSubscribe: (_s, n) => counts.push(n),
+      onUnsubscribe: (_s, n) => counts.push(n),
+    })
+    const seen: unknown[] = []
+    const unsub = subscribePath(store, ["user", "profile", "age"], v => seen.push(v))
+    mutate(store, d => { d.user.profile.age = 2 })
+    mutate(store, d => { d.user.profile.age = 3 })
+    await Promise.resolve()
+    expect(seen).toEqual([3])
+    unsub()
+    expect(counts).toEqual([1, 0])
+  })
+
+  it("stops delivering after destroy", () => {
+    const store = createStore<S>(initial())
+    const cb = vi.fn()
+    const unsub = subscribePath(store, ["user"], cb)
+    store.destroy()
+    unsub()
+    expect(() => subscribePath(store, ["user"], cb)).toThrow("Store is destroyed")
+  })
+})
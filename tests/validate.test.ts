@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest"
+import { z } from "zod"
+import { createStore, validate, fromZod, fromPredicate, rehydrate, isSafeError, reportErrors } from "../src"
+import { focus } from "../src/paths.js"
+import type { SafeError, ValidationDetails } from "../src"
+
+const Settings = z.object({
+  theme: z.enum(["light", "dark"]),
+  fontSize: z.number().min(8).default(14),
+})
+type S = { theme: "light" | "dark"; fontSize: number }
+
+const initial: S = { theme: "light", fontSize: 14 }
+
+function caught(fn: () => unknown): SafeError {
+  try {
+    fn()
+  } catch (err) {
+    if (isSafeError(err)) return err
+    throw err
+  }
+  throw new Error("expected a throw")
+}
+
+describe("validate()", () => {
+  it("rejects an invalid commit and throws validation_failed with the schema's issues", () => {
+    const store = createStore<S>(initial, { plugins: [validate(fromZod<S>(Settings))] })
+    const listener = vi.fn()
+    store.subscribe(s => s, listener)
+
+    const error = caught(() => store.set({ theme: "neon" as "dark", fontSize: 2 }, { action: "settings/bad" }))
+    expect(error.code).toBe("validation_failed")
+    expect(error.message).toMatch(/^Invalid state at "theme": /)
+    const details = error.details as ValidationDetails
+    expect(details.issues.map(i => i.path)).toEqual([["theme"], ["fontSize"]])
+    expect(details.meta).toEqual({ action: "settings/bad" })
+
+    expect(store.read()).toBe(initial)
+    expect(store.version).toBe(0)
+    expect(listener).not.toHaveBeenCalled()
+
+    store.patch({ theme: "dark" })
+    expect(store.read().theme).toBe("dark")
+  })
+
+  it("reports rejections to onError, and only there under the isolate policy", () => {
+    const reported: SafeError[] = []
+    const after = vi.fn()
+    const store = createStore<S>(initial, {
+      errors: reportErrors({ policy: "isolate", onError: e => { reported.push(e) } }),
+      plugins: [validate(fromZod<S>(Settings)), { name: "spy", onAfterUpdate: after }],
+    })
+    expect(() => store.patch({ fontSize: 1 })).not.toThrow()
+    expect(store.read()).toBe(initial)
+    expect(after).not.toHaveBeenCalled()
+    expect(reported.map(e => e.code)).toEqual(["validation_failed"])
+  })
+
+  it("repairs state in coerce mode", () => {
+    const store = createStore<S>(initial, { plugins: [validate(fromZod<S>(Settings), { mode: "coerce" })] })
+    store.set({ theme: "dark" } as S)
+    expect(store.read()).toEqual({ theme: "dark", fontSize: 14 })
+    expect(() => store.set({ theme: "neon" } as unknown as S)).toThrow("Invalid state")
+    expect(store.read().theme).toBe("dark")
+  })
+
+  it("commits and warns in warn mode", () => {
+    const warnings: SafeError[] = []
+    const store = createStore<S>(initial, {
+      plugins: [validate(fromZod<S>(Settings), { mode: "warn", onWarning: e => { warnings.push(e) } })],
+    })
+    store.patch({ fontSize: 1 })
+    expect(store.read().fontSize).toBe(1)
+    expect(warnings).toHaveLength(1)
+    expect((warnings[0]!.details as ValidationDetails).issues[0]!.path).toEqual(["fontSize"])
+  })
+
+  it("guards rehydrate and works with predicate schemas", () => {
+    const isS = (x: unknown): x is S =>
+      typeof x === "object" && x !== null && typeof (x as S).fontSize === "number"
+    const store = createStore<S>(initial, { plugins: [validate(fromPredicate(isS))] })
+    const error = caught(() => rehydrate(store, '{"theme":"dark"}'))
+    expect((error.details as ValidationDetails).issues).toEqual([{ path: [], message: "Invalid schema" }])
+    expect(store.read()).toBe(initial)
+  })
+
+  it("validates writes made through a focused slice", () => {
+    const app = createStore<{ settings: S }>({ settings: initial })
+    const settings = focus<{ settings: S }, S>(app, "settings")
+    settings.use(validate(fromZod<S>(Settings)))
+    expect(() => settings.patch({ fontSize: 0 })).toThrow("Invalid state")
+    expect(app.read().settings).toBe(initial)
+  })
+})
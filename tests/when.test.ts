@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createStore, combineStores, derive, isSafeError } from "../src"
+import { focus, subscribePath } from "../src/paths.js"
+import { when } from "../src/reactive.js"
+import type { SafeError } from "../src"
+
+async function rejection(promise: Promise<unknown>): Promise<SafeError> {
+  try {
+    await promise
+  } catch (err) {
+    if (isSafeError(err)) return err
+    throw err
+  }
+  throw new Error("expected a rejection")
+}
+
+describe("subscribe({ signal })", () => {
+  it("unsubscribes when the signal aborts", () => {
+    const onUnsubscribe = vi.fn()
+    const store = createStore({ n: 0 }, { onUnsubscribe })
+    const controller = new AbortController()
+    const listener = vi.fn()
+    store.subscribe(s => s.n, listener, { signal: controller.signal })
+    subscribePath(store, ["n"], listener, { signal: controller.signal })
+
+    store.set({ n: 1 })
+    controller.abort()
+    store.set({ n: 2 })
+
+    expect(listener.mock.calls).toEqual([[1], [1]])
+    expect(onUnsubscribe).toHaveBeenLastCalledWith(store, 0)
+  })
+
+  it("subscribes nothing for an already aborted signal", () => {
+    const onSubscribe = vi.fn()
+    const store = createStore(0, { onSubscribe })
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(s => s, listener, { signal: AbortSignal.abort(), fireImmediately: true })
+    store.set(1)
+    unsubscribe()
+    expect(listener).not.toHaveBeenCalled()
+    expect(onSubscribe).not.toHaveBeenCalled()
+  })
+
+  it("is honoured by focused slices, derived values and combined stores", () => {
+    const app = createStore({ a: 0, b: 0 })
+    const controller = new AbortController()
+    const { signal } = controller
+    const listener = vi.fn()
+    focus<{ a: number; b: number }, number>(app, "a").subscribe(a => a, listener, { signal })
+    derive(app, s => s.b).subscribe(listener, { signal })
+    combineStores({ app }).subscribe(listener, { signal })
+
+    controller.abort()
+    app.set({ a: 1, b: 1 })
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
+
+describe("when()", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("resolves at once when the predicate already holds", async () => {
+    const store = createStore({ ready: true, user: "ada" })
+    await expect(when(store, s => s.ready)).resolves.toEqual({ ready: true, user: "ada" })
+  })
+
+  it("resolves with the first state the predicate holds for, then unsubscribes", async () => {
+    const onUnsubscribe = vi.fn()
+    const store = createStore({ status: "idle" }, { onUnsubscribe })
+    const ready = when(store, s => s.status === "ready")
+
+    store.set({ status: "loading" })
+    store.set({ status: "ready" })
+    await expect(ready).resolves.toEqual({ status: "ready" })
+    expect(onUnsubscribe).toHaveBeenLastCalledWith(store, 0)
+  })
+
+  it("works on derived values", async () => {
+    const store = createStore({ count: 0 })
+    const count = derive(store, s => s.count)
+    const reached = when(count, n => n >= 2)
+    store.set({ count: 1 })
+    store.set({ count: 2 })
+    await expect(reached).resolves.toBe(2)
+  })
+
+  it("rejects with a timeout SafeError and leaves no listener behind", async () => {
+    vi.useFakeTimers()
+    const onUnsubscribe = vi.fn()
+    const store = createStore(false, { onUnsubscribe })
+    const waiting = rejection(when(store, ready => ready, { timeout: 1000 }))
+
+    await vi.advanceTimersByTimeAsync(1000)
+    const error = await waiting
+    expect(error.code).toBe("timeout")
+    expect(error.details).toEqual({ timeout: 1000 })
+    expect(onUnsubscribe).toHaveBeenLastCalledWith(store, 0)
+  })
+
+  it("rejects with an aborted SafeError when the signal aborts", async () => {
+    const store = createStore(false)
+    const controller = new AbortController()
+    const waiting = rejection(when(store, ready => ready, { signal: controller.signal }))
+    controller.abort("route changed")
+
+    const error = await waiting
+    expect(error.code).toBe("aborted")
+    expect(error.details).toEqual({ reason: "route changed" })
+    expect((await rejection(when(store, ready => ready, { signal: controller.signal }))).code).toBe("aborted")
+  })
+
+  it("rejects with store_destroyed for a store that is already destroyed", async () => {
+    const store = createStore(0)
+    store.destroy()
+    expect((await rejection(when(store, n => n > 0))).code).toBe("store_destroyed")
+  })
+
+  it("rejects when the store is destroyed first", async () => {
+    const store = createStore(0)
+    const waiting = rejection(when(store, n => n > 0))
+    store.destroy()
+    expect((await waiting).code).toBe("store_destroyed")
+  })
+})